@@ -0,0 +1,33 @@
+// Admin endpoint: discovered MapServer schema and how the layer registry matches it
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '../../../../lib/admin-auth';
+import { getLayerSchemaCacheStatus, getLayerSchemaReport } from '../../../../lib/arcgis-schema';
+
+// Cached for a day: ?refresh=true re-reads the service and layer metadata
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const refresh = request.nextUrl.searchParams.get('refresh') === 'true';
+    const report = await getLayerSchemaReport({ refresh });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      cache: getLayerSchemaCacheStatus(),
+    });
+  } catch (error) {
+    console.error('Error discovering ArcGIS schema:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to discover ArcGIS schema',
+      },
+      { status: 500 }
+    );
+  }
+}
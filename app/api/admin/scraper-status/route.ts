@@ -0,0 +1,47 @@
+// Admin endpoint: scraper health from the scrape_runs log
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../lib/supabase';
+import { isAdminRequest } from '../../../../lib/admin-auth';
+import { listScrapeRuns } from '../../../../lib/scrape-health';
+import { parseLimit } from '../../../../lib/query-params';
+
+const MAX_RUNS = 100;
+
+// Latest runs newest first: ?limit=
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const limit = parseLimit(request.nextUrl.searchParams.get('limit'), 20, MAX_RUNS);
+  if (limit === null) {
+    return NextResponse.json({ success: false, error: 'limit must be an integer' }, { status: 400 });
+  }
+
+  try {
+    const runs = await listScrapeRuns(getServiceSupabaseClient(), limit);
+    const latest = runs[0] || null;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        // null until the first run has been recorded
+        healthy: latest ? latest.healthy : null,
+        latestRun: latest,
+        lastHealthyRun: runs.find((run) => run.healthy) || null,
+        runs,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading scraper status:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load scraper status',
+      },
+      { status: 500 }
+    );
+  }
+}
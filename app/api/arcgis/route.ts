@@ -1,98 +1,115 @@
 // Server-side API route for ArcGIS MapServer proxy
 
 import { NextRequest, NextResponse } from 'next/server';
-import { ARCGIS_SERVICE_URL, QUERY_PARAMS } from '../../../lib/arcgis-config';
+import { ArcGISQueryProgress, ArcGISQueryResult, queryAllFeatures } from '../../../lib/arcgis-paging';
+import { ArcGISQuery, ArcGISQueryError, compileArcGISQuery } from '../../../lib/arcgis-query';
+import { getLayerById } from '../../../lib/layer-registry';
+import { tileKey } from '../../../lib/map-tiles';
+import { CacheManager } from '../../../lib/cache';
 
+const TILE_CACHE_KEY_PREFIX = 'arcgis-tile-';
+
+// Tile keys come from request input (tile, conditions, zoom), so the tile cache keeps its own bounded store
+// instead of the shared one; each map client keeps up to 600 tiles of its own (lib/arcgis-client.ts)
+const MAX_CACHED_TILES = 1000;
+const tileCache = new CacheManager(MAX_CACHED_TILES);
+
+// Tile queries repeat as users pan back and forth, so their results are cached per layer, tile and filters
+function tileCacheKey(query: ArcGISQuery): string | null {
+  if (!query.tile) return null;
+  const { conditions, outFields, zoom } = query;
+  return `${TILE_CACHE_KEY_PREFIX}${query.layer}/${tileKey(query.tile)}:${JSON.stringify({ conditions, outFields, zoom })}`;
+}
+
+function logProgress({ layerId, fetched, total, pagesDone, pages }: ArcGISQueryProgress) {
+  console.log(`ArcGIS layer ${layerId}: page ${pagesDone}/${pages}, ${fetched}/${total} features`);
+}
+
+async function runQuery(input: unknown) {
+  let compiled: { query: ArcGISQuery; params: Record<string, string> };
+  try {
+    compiled = await compileArcGISQuery(input);
+  } catch (error) {
+    if (error instanceof ArcGISQueryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const { query, params } = compiled;
+  const cacheKey = tileCacheKey(query);
+  let data = cacheKey ? tileCache.get<ArcGISQueryResult>(cacheKey) : null;
+
+  if (!data) {
+    console.log(`Fetching ArcGIS layer ${query.layer} (${getLayerById(query.layer)?.name}) where ${params.where}`);
+
+    // Every matching feature, in as many pages as the layer's maxRecordCount requires
+    data = await queryAllFeatures(query.layer, { params, onProgress: logProgress });
+    if (cacheKey) tileCache.set(cacheKey, data);
+
+    // Log successful fetch
+    console.log(`Successfully fetched layer ${query.layer}: ${data.features.length} features`);
+  }
+
+  const featureCount = data.features.length;
+
+  return NextResponse.json({
+    success: true,
+    data,
+    layerId: query.layer,
+    where: params.where,
+    featureCount,
+    ...(cacheKey ? { cache: tileCache.getStatus(cacheKey) } : {}),
+  });
+}
+
+// Whole layer: ?layer=
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const layerId = searchParams.get('layer');
-  const where = searchParams.get('where') || '1=1';
-  const outFields = searchParams.get('outFields') || '*';
+  const layerParam = searchParams.get('layer');
 
-  if (!layerId) {
+  if (!layerParam) {
     return NextResponse.json({ error: 'Layer ID required' }, { status: 400 });
   }
 
-  try {
-    const url = `${ARCGIS_SERVICE_URL}/${layerId}/query`;
-    const params = new URLSearchParams({
-      ...QUERY_PARAMS,
-      where,
-      outFields,
-    });
-    
-    console.log(`Fetching ArcGIS layer ${layerId} from: ${url}`);
-    
-    const response = await fetch(`${url}?${params.toString()}`, {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`ArcGIS API error (${response.status}):`, errorText);
-      throw new Error(`ArcGIS API error: ${response.status}`);
-    }
+  if (searchParams.has('where')) {
+    return NextResponse.json(
+      { success: false, error: 'Raw where clauses are not accepted; POST a structured query instead' },
+      { status: 400 }
+    );
+  }
 
-    const data = await response.json();
-    
-    // Log successful fetch
-    const featureCount = data.features?.length || 0;
-    console.log(`Successfully fetched layer ${layerId}: ${featureCount} features`);
-    
-    return NextResponse.json({
-      success: true,
-      data,
-      layerId: parseInt(layerId),
-      featureCount,
-    });
+  try {
+    return await runQuery({ layer: layerParam });
   } catch (error) {
     console.error('ArcGIS fetch error:', error);
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to fetch ArcGIS data',
-        layerId: parseInt(layerId || '0'),
       },
       { status: 500 }
     );
   }
 }
 
-// POST endpoint to refresh specific layer cache
+// Structured query: { layer, conditions?, envelope? or tile?, zoom?, outFields? } (see lib/arcgis-query.ts)
 export async function POST(request: NextRequest) {
+  let body: unknown;
   try {
-    const body = await request.json();
-    const layerId = body.layer;
-
-    if (!layerId) {
-      return NextResponse.json({ error: 'Layer ID required' }, { status: 400 });
-    }
-
-    // Trigger a fresh fetch by calling the GET endpoint
-    const url = `${ARCGIS_SERVICE_URL}/${layerId}/query`;
-    const params = new URLSearchParams(QUERY_PARAMS);
-    
-    const response = await fetch(`${url}?${params.toString()}`);
-    
-    if (!response.ok) {
-      throw new Error(`ArcGIS API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 });
+  }
 
-    return NextResponse.json({
-      success: true,
-      message: `Layer ${layerId} data refreshed`,
-      featureCount: data.features?.length || 0,
-    });
+  try {
+    return await runQuery(body);
   } catch (error) {
-    console.error('ArcGIS refresh error:', error);
+    console.error('ArcGIS query error:', error);
     return NextResponse.json(
-      { 
+      {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to refresh ArcGIS data',
+        error: error instanceof Error ? error.message : 'Failed to query ArcGIS data',
       },
       { status: 500 }
     );
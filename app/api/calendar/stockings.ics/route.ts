@@ -0,0 +1,68 @@
+// iCalendar feed of the stocking schedule for Google/Apple Calendar subscriptions
+// Accepts the /api/stocking-data filters: county, species, waterBody (repeatable), q, startDate, endDate
+
+import { NextRequest, NextResponse } from 'next/server';
+import { format, subDays } from 'date-fns';
+import { getSupabaseClient } from '../../../../lib/supabase';
+import { MAX_LIMIT, parseStockingQuery } from '../../../../lib/stocking-query';
+import { StockingEventRepository } from '../../../../lib/stocking-repository';
+import { buildStockingCalendar } from '../../../../lib/ical';
+import { StockingEvent } from '../../../../lib/types';
+
+// Without a startDate the feed covers recent history plus everything scheduled ahead
+const DEFAULT_HISTORY_DAYS = 180;
+const MAX_CALENDAR_EVENTS = 10000;
+
+function describeFilters(counties: string[], species: string[], waterBodies: string[]): string | null {
+  const parts = [...waterBodies, ...counties, ...species];
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const repository = new StockingEventRepository(getSupabaseClient());
+    const query = {
+      ...parseStockingQuery(request.nextUrl.searchParams),
+      sortBy: 'date' as const,
+      sortOrder: 'asc' as const,
+      limit: MAX_LIMIT,
+    };
+
+    if (!query.startDate) {
+      query.startDate = format(subDays(new Date(), DEFAULT_HISTORY_DAYS), 'yyyy-MM-dd');
+    }
+
+    const events: StockingEvent[] = [];
+    let cursor = query.cursor;
+
+    do {
+      const page = await repository.query({ ...query, cursor });
+      events.push(...page.events);
+      cursor = page.nextCursor || undefined;
+    } while (cursor && events.length < MAX_CALENDAR_EVENTS);
+
+    const filters = describeFilters(query.counties, query.species, query.waterBodies);
+    const calendar = buildStockingCalendar(events.slice(0, MAX_CALENDAR_EVENTS), {
+      name: filters ? `Virginia Trout Stocking (${filters})` : 'Virginia Trout Stocking',
+      description: 'Trout stocking schedule from the Virginia Department of Wildlife Resources',
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="trout-stocking.ics"',
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building stocking calendar:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build stocking calendar',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// Atom feed of the latest stockings, one item per day (optionally filtered by county/species)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseClient } from '../../../../lib/supabase';
+import { parseStockingQuery } from '../../../../lib/stocking-query';
+import { StockingEventRepository } from '../../../../lib/stocking-repository';
+import { buildAtomFeed, DEFAULT_FEED_DAYS, feedOptionsFor, fetchRecentStockingDays } from '../../../../lib/feeds';
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseStockingQuery(request.nextUrl.searchParams);
+    const days = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_FEED_DAYS), 10);
+
+    const stockingDays = await fetchRecentStockingDays(
+      new StockingEventRepository(getSupabaseClient()),
+      query,
+      isNaN(days) || days < 1 ? DEFAULT_FEED_DAYS : days
+    );
+
+    return new NextResponse(buildAtomFeed(stockingDays, feedOptionsFor(request.nextUrl, query)), {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error building Atom feed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build Atom feed',
+      },
+      { status: 500 }
+    );
+  }
+}
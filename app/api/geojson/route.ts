@@ -3,16 +3,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchAllGeoJSONData, fetchGeoJSONData } from '../../../lib/api';
 import { cache } from '../../../lib/cache';
-import { LayerType, LayerData } from '../../../lib/types';
+import { LayerData } from '../../../lib/types';
+import { LAYER_TYPES, isLayerType } from '../../../lib/layer-registry';
+import { ArcGISQueryProgress } from '../../../lib/arcgis-paging';
+
+// Large layers arrive in several pages
+const fetchOptions = {
+  onProgress: ({ layerId, fetched, total, pagesDone, pages }: ArcGISQueryProgress) => {
+    console.log(`GeoJSON layer ${layerId}: page ${pagesDone}/${pages}, ${fetched}/${total} features`);
+  },
+};
 
 const CACHE_KEY_PREFIX = 'geojson-';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const layerParam = searchParams.get('layer') as LayerType | null;
+    const layerParam = searchParams.get('layer');
     const forceRefresh = searchParams.get('refresh') === 'true';
 
+    if (layerParam !== null && !isLayerType(layerParam)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown layer: ${layerParam}. Expected one of ${LAYER_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Fetch single layer or all layers
     if (layerParam) {
       const cacheKey = `${CACHE_KEY_PREFIX}${layerParam}`;
@@ -27,7 +43,7 @@ export async function GET(request: NextRequest) {
       // If not cached, fetch fresh data
       if (!layerData) {
         console.log(`Fetching fresh GeoJSON data for ${layerParam}...`);
-        layerData = await fetchGeoJSONData(layerParam);
+        layerData = await fetchGeoJSONData(layerParam, fetchOptions);
         cache.set(cacheKey, layerData);
       }
 
@@ -51,7 +67,7 @@ export async function GET(request: NextRequest) {
 
       if (!allLayers) {
         console.log('Fetching fresh GeoJSON data for all layers...');
-        allLayers = await fetchAllGeoJSONData();
+        allLayers = await fetchAllGeoJSONData(fetchOptions);
         cache.set(cacheKey, allLayers);
       }
 
@@ -81,7 +97,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const layer = body.layer as LayerType | undefined;
+    const layer = body.layer;
+
+    if (layer !== undefined && !isLayerType(layer)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown layer: ${layer}. Expected one of ${LAYER_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     if (layer) {
       // Clear specific layer cache
@@ -89,7 +112,7 @@ export async function POST(request: NextRequest) {
       cache.clear(cacheKey);
       
       // Fetch fresh data
-      const layerData = await fetchGeoJSONData(layer);
+      const layerData = await fetchGeoJSONData(layer, fetchOptions);
       cache.set(cacheKey, layerData);
 
       return NextResponse.json({
@@ -99,12 +122,10 @@ export async function POST(request: NextRequest) {
     } else {
       // Clear all layer caches
       cache.clear(`${CACHE_KEY_PREFIX}all`);
-      cache.clear(`${CACHE_KEY_PREFIX}stocked-streams`);
-      cache.clear(`${CACHE_KEY_PREFIX}stocked-lakes`);
-      cache.clear(`${CACHE_KEY_PREFIX}wild-streams`);
+      LAYER_TYPES.forEach((type) => cache.clear(`${CACHE_KEY_PREFIX}${type}`));
       
       // Fetch fresh data
-      const allLayers = await fetchAllGeoJSONData();
+      const allLayers = await fetchAllGeoJSONData(fetchOptions);
       cache.set(`${CACHE_KEY_PREFIX}all`, allLayers);
 
       return NextResponse.json({
@@ -0,0 +1,52 @@
+// Post-sync hook: called by the sync-stocking-data edge function after it inserts new rows
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../lib/supabase';
+import { createChannelsFromEnv } from '../../../../lib/notifications';
+import { runStockingAlertJob } from '../../../../lib/stocking-alerts';
+import { dispatchStockingWebhooks } from '../../../../lib/webhooks';
+import { isSyncHookRequest } from '../../../../lib/admin-auth';
+
+export async function POST(request: NextRequest) {
+  if (!isSyncHookRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const eventIds: string[] = Array.isArray(body.eventIds) ? body.eventIds.map(String) : [];
+
+    const supabase = getServiceSupabaseClient();
+
+    const alerts = await runStockingAlertJob(supabase, eventIds, createChannelsFromEnv(), request.nextUrl.origin);
+    console.log(`Stocking alerts: ${alerts.sent} sent, ${alerts.failed} failed for ${alerts.events} new events`);
+
+    // Failed first attempts stay pending and are picked up by the retry job
+    const webhooks = await dispatchStockingWebhooks(supabase, eventIds);
+
+    return NextResponse.json({
+      success: true,
+      alerts: {
+        events: alerts.events,
+        subscriptions: alerts.subscriptions,
+        sent: alerts.sent,
+        failed: alerts.failed,
+      },
+      webhooks: {
+        queued: webhooks.length,
+        succeeded: webhooks.filter((d) => d.status === 'succeeded').length,
+        pending: webhooks.filter((d) => d.status === 'pending').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error running post-sync hook:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to run post-sync hook',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+// Audit history of one stocking event: creation, cancellation, rescheduling and restoration
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseClient } from '../../../../../lib/supabase';
+import { getStockingEventHistory } from '../../../../../lib/stocking-reconciliation';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid event id' }, { status: 400 });
+    }
+
+    const history = await getStockingEventHistory(getSupabaseClient(), id);
+
+    return NextResponse.json({ success: true, data: history, count: history.length });
+  } catch (error) {
+    console.error('Error fetching stocking event history:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch stocking event history',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// Double opt-in link for stocking alert subscriptions: ?id=&token=
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../lib/supabase';
+import { setSubscriptionState } from '../../../../lib/stocking-alerts';
+
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!id || !token) {
+      return NextResponse.json({ success: false, error: 'Subscription id and token required' }, { status: 400 });
+    }
+
+    const confirmed = await setSubscriptionState(getServiceSupabaseClient(), id, token, 'confirm');
+    if (!confirmed) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Subscription confirmed' });
+  } catch (error) {
+    console.error('Error confirming subscription:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to confirm subscription',
+      },
+      { status: 500 }
+    );
+  }
+}
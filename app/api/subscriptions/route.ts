@@ -0,0 +1,188 @@
+// API endpoint for stocking alert subscriptions
+// New subscriptions stay inactive until the confirmation link sent to their target is opened (double opt-in)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../lib/supabase';
+import {
+  SubscriptionRecord,
+  buildConfirmationMessage,
+  generateSubscriptionToken,
+  setSubscriptionState,
+  subscriptionLinks,
+  toStockingSubscription,
+} from '../../../lib/stocking-alerts';
+import { createChannelsFromEnv, pushSubscriptionError, webhookUrlError } from '../../../lib/notifications';
+import { AlertChannelKind } from '../../../lib/types';
+import { countyIdFor } from '../../../lib/canonical-entities';
+import { clientIp } from '../../../lib/admin-auth';
+import { RateLimiter } from '../../../lib/rate-limit';
+
+// Every accepted request sends a message to a target the caller picks, so callers are limited per IP
+const ipLimiter = new RateLimiter(5, 60 * 60 * 1000);
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim())
+    : [];
+}
+
+/**
+ * Check the target carries what the channel needs to deliver
+ */
+function validateTarget(channel: AlertChannelKind, target: Record<string, unknown>): string | null {
+  switch (channel) {
+    case 'email':
+      return typeof target.email === 'string' && /^[^\s@]+@[^\s@]+$/.test(target.email)
+        ? null
+        : 'A valid target.email is required';
+    case 'webhook':
+      return webhookUrlError(target.url);
+    case 'web-push':
+      return pushSubscriptionError(target.subscription);
+    default:
+      return null;
+  }
+}
+
+// Create a subscription and send its confirmation message
+export async function POST(request: NextRequest) {
+  const ipLimit = ipLimiter.check(`ip:${clientIp(request)}`);
+  if (!ipLimit.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(ipLimit.retryAfterMs / 1000));
+    return NextResponse.json(
+      { success: false, error: 'Too many subscription requests', code: 'rate_limited', retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    const channel = body.channel as AlertChannelKind;
+    const target = (body.target && typeof body.target === 'object' ? body.target : {}) as Record<string, unknown>;
+
+    // Only channels configured on this deployment (the outbox only with ALERTS_USE_OUTBOX)
+    const channels = createChannelsFromEnv();
+    const sender = channels.get(channel);
+    if (!sender) {
+      return NextResponse.json(
+        { success: false, error: `channel must be one of: ${Array.from(channels.keys()).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const targetError = validateTarget(channel, target);
+    if (targetError) {
+      return NextResponse.json({ success: false, error: targetError }, { status: 400 });
+    }
+
+    // Waters by canonical id (StockingEvent.waterId); counties in any spelling, stored as their ids
+    const waterIds = Array.from(new Set(toStringList(body.waterIds)));
+    const countyIds = Array.from(
+      new Set(toStringList(body.counties).map(countyIdFor).filter((id): id is string => !!id))
+    );
+
+    const supabase = getServiceSupabaseClient();
+
+    // An unknown id would never match, leaving a subscription that silently sends nothing
+    if (waterIds.length > 0) {
+      const { data: waters, error: watersError } = await supabase.from('waters').select('id').in('id', waterIds);
+      if (watersError) throw watersError;
+
+      const known = new Set((waters || []).map((water) => water.id));
+      const unknown = waterIds.filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        return NextResponse.json({ success: false, error: `Unknown waterIds: ${unknown.join(', ')}` }, { status: 400 });
+      }
+    }
+
+    const record = {
+      channel,
+      target,
+      water_ids: waterIds,
+      county_ids: countyIds,
+      species: toStringList(body.species),
+      active: true,
+      token: generateSubscriptionToken(),
+    };
+
+    const { data, error } = await supabase
+      .from('stocking_subscriptions')
+      .insert(record)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const subscription = data as SubscriptionRecord;
+    const links = subscriptionLinks(request.nextUrl.origin, subscription.id, record.token);
+
+    try {
+      await sender.send(target, buildConfirmationMessage(links));
+    } catch (sendError) {
+      console.error(`Confirmation delivery failed for subscription ${subscription.id}:`, sendError);
+      await supabase.from('stocking_subscriptions').delete().eq('id', subscription.id);
+
+      return NextResponse.json(
+        { success: false, error: 'The confirmation message could not be delivered to the target' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Confirmation sent; alerts start once its link is opened',
+        data: toStockingSubscription(subscription),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create subscription',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Unsubscribe: ?id=&token= from the subscription's confirmation or alert messages
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!id || !token) {
+      return NextResponse.json({ success: false, error: 'Subscription id and token required' }, { status: 400 });
+    }
+
+    const cancelled = await setSubscriptionState(getServiceSupabaseClient(), id, token, 'cancel');
+    if (!cancelled) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Subscription cancelled' });
+  } catch (error) {
+    console.error('Error cancelling subscription:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel subscription',
+      },
+      { status: 500 }
+    );
+  }
+}
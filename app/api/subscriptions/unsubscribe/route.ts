@@ -0,0 +1,33 @@
+// Unsubscribe link included in every stocking alert: ?id=&token=
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../lib/supabase';
+import { setSubscriptionState } from '../../../../lib/stocking-alerts';
+
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const token = request.nextUrl.searchParams.get('token');
+
+    if (!id || !token) {
+      return NextResponse.json({ success: false, error: 'Subscription id and token required' }, { status: 400 });
+    }
+
+    const cancelled = await setSubscriptionState(getServiceSupabaseClient(), id, token, 'cancel');
+    if (!cancelled) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Subscription cancelled' });
+  } catch (error) {
+    console.error('Error cancelling subscription:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel subscription',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// Sync status: when the stocking data was last refreshed, from the sync_runs history
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseClient } from '../../../lib/supabase';
+import { getLastSuccessfulSyncRun, listSyncRuns } from '../../../lib/sync-runs';
+import { parseLimit } from '../../../lib/query-params';
+
+const MAX_RUNS = 100;
+
+// Latest runs newest first: ?limit=
+export async function GET(request: NextRequest) {
+  const limit = parseLimit(request.nextUrl.searchParams.get('limit'), 10, MAX_RUNS);
+  if (limit === null) {
+    return NextResponse.json({ success: false, error: 'limit must be an integer' }, { status: 400 });
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const [runs, lastSuccessfulRun] = await Promise.all([
+      listSyncRuns(supabase, limit),
+      getLastSuccessfulSyncRun(supabase),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lastSuccessfulSync: lastSuccessfulRun?.finishedAt || null,
+        lastSuccessfulRun,
+        latestRun: runs[0] || null,
+        runs,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading sync status:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load sync status',
+      },
+      { status: 500 }
+    );
+  }
+}
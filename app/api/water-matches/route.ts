@@ -0,0 +1,270 @@
+// API endpoint linking stocking locations to ArcGIS map features
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient, getSupabaseClient } from '../../../lib/supabase';
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { StockingEventRepository } from '../../../lib/stocking-repository';
+import { QUERY_PARAMS } from '../../../lib/arcgis-config';
+import { queryAllFeatures } from '../../../lib/arcgis-paging';
+import { LAYERS } from '../../../lib/layer-registry';
+import { ArcGISFeature, toPublicLake, toStockingLocation, toTroutStream } from '../../../lib/arcgis-client';
+import { buildMatchCandidates, matchAllWaterBodies, matchWaterBody } from '../../../lib/water-matching';
+import { MatchFeatureLayer, MatchOverride, MatchStatus, WaterBodyMatch } from '../../../lib/types';
+
+const PAGE_SIZE = 1000;
+const MATCH_STATUSES: MatchStatus[] = ['matched', 'ambiguous', 'unmatched', 'override'];
+const FEATURE_LAYERS: MatchFeatureLayer[] = ['stream', 'location', 'lake'];
+
+interface MatchRecord {
+  location: string;
+  county: string;
+  status: MatchStatus;
+  matches: WaterBodyMatch['matches'];
+  matched_at: string;
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+}
+
+function toWaterBodyMatch(record: MatchRecord): WaterBodyMatch {
+  return {
+    location: record.location,
+    county: record.county,
+    status: record.status,
+    matches: record.matches || [],
+    matchedAt: record.matched_at,
+  };
+}
+
+async function fetchLayerFeatures(layerId: number): Promise<ArcGISFeature[]> {
+  const data = await queryAllFeatures(layerId, { params: QUERY_PARAMS });
+  return data.features as ArcGISFeature[];
+}
+
+async function loadCandidates() {
+  const [streams, locations, lakes] = await Promise.all([
+    fetchLayerFeatures(LAYERS.TROUT_STREAMS.id),
+    fetchLayerFeatures(LAYERS.STOCKING_LOCATIONS.id),
+    fetchLayerFeatures(LAYERS.PUBLIC_LAKES.id),
+  ]);
+
+  return buildMatchCandidates({
+    streams: streams.map(toTroutStream),
+    locations: locations.map(toStockingLocation),
+    lakes: lakes.map(toPublicLake),
+  });
+}
+
+async function loadOverrides(): Promise<MatchOverride[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('water_body_overrides')
+    .select('location, county, layer, feature_id');
+
+  if (error) throw error;
+
+  return ((data || []) as Array<{ location: string; county: string; layer: MatchFeatureLayer; feature_id: string }>)
+    .map((row) => ({
+      location: row.location,
+      county: row.county,
+      layer: row.layer,
+      featureId: row.feature_id,
+    }));
+}
+
+async function saveMatches(matches: WaterBodyMatch[]) {
+  const supabase = getServiceSupabaseClient();
+  const matchedAt = new Date().toISOString();
+
+  for (let i = 0; i < matches.length; i += PAGE_SIZE) {
+    const batch = matches.slice(i, i + PAGE_SIZE).map((match) => ({
+      location: match.location,
+      county: match.county,
+      status: match.status,
+      matches: match.matches,
+      matched_at: matchedAt,
+    }));
+
+    const { error } = await supabase
+      .from('water_body_matches')
+      .upsert(batch, { onConflict: 'location,county' });
+
+    if (error) throw error;
+  }
+}
+
+// List persisted matches, e.g. ?status=unmatched,ambiguous for the review queue
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = getSupabaseClient();
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const statuses = statusParam
+      ? statusParam.split(',').filter((s): s is MatchStatus => MATCH_STATUSES.includes(s as MatchStatus))
+      : [];
+
+    const results: WaterBodyMatch[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase
+        .from('water_body_matches')
+        .select('location, county, status, matches, matched_at')
+        .order('location', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (statuses.length > 0) {
+        query = query.in('status', statuses);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows = (data || []) as MatchRecord[];
+      results.push(...rows.map(toWaterBodyMatch));
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+      count: results.length,
+    });
+  } catch (error) {
+    console.error('Error in water-matches API:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch water-body matches',
+        data: [],
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Re-run matching for every stocked location and persist the results (admin only)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const [pairs, candidates, overrides] = await Promise.all([
+      new StockingEventRepository(getSupabaseClient()).listLocations(),
+      loadCandidates(),
+      loadOverrides(),
+    ]);
+
+    console.log(`Matching ${pairs.length} stocking rows against ${candidates.length} map features...`);
+
+    const matches = matchAllWaterBodies(pairs, candidates, overrides);
+    await saveMatches(matches);
+
+    const summary = MATCH_STATUSES.reduce((acc, status) => {
+      acc[status] = matches.filter((m) => m.status === status).length;
+      return acc;
+    }, {} as Record<MatchStatus, number>);
+
+    return NextResponse.json({
+      success: true,
+      message: `Matched ${matches.length} water bodies`,
+      summary,
+      candidates: candidates.length,
+    });
+  } catch (error) {
+    console.error('Error matching water bodies:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to match water bodies',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Pin a location to a specific map feature (manual override) and re-match it (admin only)
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const body = await request.json();
+    const { location, county, layer, featureId } = body as Partial<MatchOverride>;
+
+    if (!location || !county || !layer || !featureId || !FEATURE_LAYERS.includes(layer)) {
+      return NextResponse.json(
+        { success: false, error: 'location, county, layer and featureId are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceSupabaseClient();
+    const { error } = await supabase
+      .from('water_body_overrides')
+      .upsert({ location, county, layer, feature_id: featureId }, {
+        onConflict: 'location,county,layer,feature_id',
+      });
+
+    if (error) throw error;
+
+    const [candidates, overrides] = await Promise.all([loadCandidates(), loadOverrides()]);
+    const match = matchWaterBody(location, county, candidates, overrides);
+    await saveMatches([match]);
+
+    return NextResponse.json({ success: true, data: match });
+  } catch (error) {
+    console.error('Error saving water-body override:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save override',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove all overrides for ?location=&county= and fall back to fuzzy matching (admin only)
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const location = searchParams.get('location');
+    const county = searchParams.get('county');
+
+    if (!location || !county) {
+      return NextResponse.json(
+        { success: false, error: 'location and county are required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = getServiceSupabaseClient();
+    const { error } = await supabase
+      .from('water_body_overrides')
+      .delete()
+      .eq('location', location)
+      .eq('county', county);
+
+    if (error) throw error;
+
+    const [candidates, overrides] = await Promise.all([loadCandidates(), loadOverrides()]);
+    const match = matchWaterBody(location, county, candidates, overrides);
+    await saveMatches([match]);
+
+    return NextResponse.json({ success: true, data: match });
+  } catch (error) {
+    console.error('Error removing water-body override:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove override',
+      },
+      { status: 500 }
+    );
+  }
+}
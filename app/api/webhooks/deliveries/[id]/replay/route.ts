@@ -0,0 +1,42 @@
+// Replay a logged webhook delivery (admin only), e.g. to test a receiver
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../../../lib/supabase';
+import { isAdminRequest } from '../../../../../../lib/admin-auth';
+import { replayWebhookDelivery } from '../../../../../../lib/webhooks';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const deliveryId = parseInt(id, 10);
+
+    if (isNaN(deliveryId)) {
+      return NextResponse.json({ success: false, error: 'Invalid delivery id' }, { status: 400 });
+    }
+
+    const delivery = await replayWebhookDelivery(getServiceSupabaseClient(), deliveryId);
+
+    if (!delivery) {
+      return NextResponse.json({ success: false, error: 'Delivery not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to replay webhook delivery',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+// Scheduled webhook retries: the Vercel cron in vercel.json calls this every 10 minutes with CRON_SECRET
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../../lib/supabase';
+import { isAdminRequest, isCronRequest } from '../../../../../lib/admin-auth';
+import { retryDueWebhookDeliveries } from '../../../../../lib/webhooks';
+
+// Retry pending deliveries whose backoff has elapsed
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request) && !isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await retryDueWebhookDeliveries(getServiceSupabaseClient());
+
+    return NextResponse.json({
+      success: true,
+      retried: results.length,
+      succeeded: results.filter((d) => d.status === 'succeeded').length,
+      failed: results.filter((d) => d.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry webhook deliveries',
+      },
+      { status: 500 }
+    );
+  }
+}
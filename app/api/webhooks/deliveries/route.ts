@@ -0,0 +1,80 @@
+// API endpoint for the webhook delivery log and scheduled retries (admin only)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../../lib/supabase';
+import { isAdminRequest } from '../../../../lib/admin-auth';
+import { WebhookDeliveryStatus, retryDueWebhookDeliveries } from '../../../../lib/webhooks';
+import { parseLimit } from '../../../../lib/query-params';
+
+const MAX_LOG_LIMIT = 200;
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+// Delivery log, newest first: ?endpointId=&status=pending|succeeded|failed&limit=
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const endpointId = searchParams.get('endpointId');
+    const status = searchParams.get('status') as WebhookDeliveryStatus | null;
+    const limit = parseLimit(searchParams.get('limit'), 50, MAX_LOG_LIMIT);
+    if (limit === null) {
+      return NextResponse.json({ success: false, error: 'limit must be an integer' }, { status: 400 });
+    }
+
+    const supabase = getServiceSupabaseClient();
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (endpointId) query = query.eq('endpoint_id', endpointId);
+    if (status && DELIVERY_STATUSES.includes(status)) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, data: data || [], count: data?.length || 0 });
+  } catch (error) {
+    console.error('Error loading webhook deliveries:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load webhook deliveries',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Retry pending deliveries whose backoff has elapsed now; GET /api/webhooks/deliveries/retry runs the same on a schedule
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await retryDueWebhookDeliveries(getServiceSupabaseClient());
+
+    return NextResponse.json({
+      success: true,
+      retried: results.length,
+      succeeded: results.filter((d) => d.status === 'succeeded').length,
+      failed: results.filter((d) => d.status === 'failed').length,
+    });
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry webhook deliveries',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// API endpoint for registering outbound webhook endpoints (admin only)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSupabaseClient } from '../../../lib/supabase';
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { generateWebhookSecret } from '../../../lib/webhooks';
+
+const ENDPOINT_COLUMNS = 'id, url, description, active, created_at';
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+}
+
+// List endpoints (secrets are never returned after creation)
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const supabase = getServiceSupabaseClient();
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select(ENDPOINT_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error('Error listing webhook endpoints:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list webhook endpoints',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Register an endpoint: { url, description?, secret? }
+// The signing secret is returned once in the response
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const body = await request.json();
+
+    let url: URL;
+    try {
+      url = new URL(String(body.url));
+    } catch {
+      return NextResponse.json({ success: false, error: 'A valid url is required' }, { status: 400 });
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return NextResponse.json({ success: false, error: 'url must be http(s)' }, { status: 400 });
+    }
+
+    const record = {
+      url: url.toString(),
+      secret: typeof body.secret === 'string' && body.secret.length >= 16 ? body.secret : generateWebhookSecret(),
+      description: typeof body.description === 'string' ? body.description : null,
+      active: true,
+    };
+
+    const supabase = getServiceSupabaseClient();
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert(record)
+      .select(`${ENDPOINT_COLUMNS}, secret`)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, data }, { status: 201 });
+  } catch (error) {
+    console.error('Error registering webhook endpoint:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to register webhook endpoint',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Deactivate an endpoint: ?id=<endpoint id>
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return unauthorized();
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'Endpoint id required' }, { status: 400 });
+    }
+
+    const supabase = getServiceSupabaseClient();
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ active: false })
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, message: 'Webhook endpoint deactivated' });
+  } catch (error) {
+    console.error('Error deactivating webhook endpoint:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to deactivate webhook endpoint',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -16,6 +16,12 @@ const geistMono = localFont({
 export const metadata: Metadata = {
   title: "Virginia Trout Stocking Map - Track Trout Stocking Schedules",
   description: "Interactive map and schedule of trout stocking locations across Virginia. Find when and where trout are stocked in Virginia streams and lakes.",
+  alternates: {
+    types: {
+      "application/rss+xml": "/api/feeds/stockings.rss",
+      "application/atom+xml": "/api/feeds/stockings.atom",
+    },
+  },
 };
 
 export default function RootLayout({
@@ -1,10 +1,18 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import { format, startOfDay } from 'date-fns';
 import { useStore } from '../../lib/store';
-import { ARCGIS_SERVICE_URL, LAYER_IDS, LAYER_NAMES, LAYER_STYLES, BASE_MAPS } from '../../lib/arcgis-config';
-import { fetchAllArcGISLayers, TroutStream, StockingLocation, PublicLake } from '../../lib/arcgis-client';
+import { ARCGIS_SERVICE_URL, BASE_MAPS } from '../../lib/arcgis-config';
+import { LAYERS, MAP_SERVER_LAYERS, getLayerById } from '../../lib/layer-registry';
+import { fetchArcGISLayersInView, MapView, TroutStream, StockingLocation, PublicLake } from '../../lib/arcgis-client';
+import { matchKey } from '../../lib/water-matching';
+import { getStockingSeason } from '../../lib/stocking-season';
+import { fetchAllStockingEvents } from '../../lib/stocking-query';
+import { StockingEvent, WaterBodyMatch } from '../../lib/types';
+import StockingLayer, { RECENCY_BUCKETS } from './StockingLayer';
+import StockingTimeline from './StockingTimeline';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -97,11 +105,37 @@ function ESRILayers({ activeLayers }: { activeLayers: Set<number> }) {
   return null;
 }
 
+// Reports the visible bounds and zoom once the map settles after each pan or zoom
+function ViewportWatcher({ onChange }: { onChange: (view: MapView) => void }) {
+  const map = useMapEvents({
+    moveend: () => onChange(viewOf(map)),
+  });
+
+  useEffect(() => {
+    onChange(viewOf(map));
+  }, [map, onChange]);
+
+  return null;
+}
+
+function viewOf(map: L.Map): MapView {
+  const bounds = map.getBounds();
+  return {
+    bounds: {
+      xmin: Math.max(bounds.getWest(), -180),
+      ymin: Math.max(bounds.getSouth(), -90),
+      xmax: Math.min(bounds.getEast(), 180),
+      ymax: Math.min(bounds.getNorth(), 90),
+    },
+    zoom: map.getZoom(),
+  };
+}
+
 export default function MapTab() {
   const { setError, isLoadingLayers, setIsLoadingLayers } = useStore();
   const [mounted, setMounted] = useState(false);
   const [activeArcGISLayers, setActiveArcGISLayers] = useState<Set<number>>(
-    new Set([LAYER_IDS.TROUT_STREAMS, LAYER_IDS.STOCKING_LOCATIONS, LAYER_IDS.PUBLIC_LAKES])
+    () => new Set(MAP_SERVER_LAYERS.filter((layer) => layer.visibleByDefault).map((layer) => layer.id))
   );
   const [baseMap, setBaseMap] = useState<BaseMapType>('STREET');
   const [dataLayers, setDataLayers] = useState<{
@@ -109,36 +143,88 @@ export default function MapTab() {
     locations: StockingLocation[];
     lakes: PublicLake[];
   } | null>(null);
+  const [view, setView] = useState<MapView | null>(null);
+  const [viewTooLarge, setViewTooLarge] = useState(false);
   const [showLegend, setShowLegend] = useState(true);
 
+  // Recent stockings layer
+  const [season] = useState(() => getStockingSeason());
+  const [showStockings, setShowStockings] = useState(true);
+  const [seasonEvents, setSeasonEvents] = useState<StockingEvent[]>([]);
+  const [waterMatches, setWaterMatches] = useState<Map<string, WaterBodyMatch>>(new Map());
+  const [referenceDate, setReferenceDate] = useState(() => startOfDay(new Date()));
+  const [isPlaying, setIsPlaying] = useState(false);
+
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Load ArcGIS layers data (for popups and filtering)
+  // Load this season's stocking events and their resolved map locations
+  useEffect(() => {
+    async function loadStockings() {
+      try {
+        const [events, matchesResponse] = await Promise.all([
+          fetchAllStockingEvents({
+            startDate: format(season.start, 'yyyy-MM-dd'),
+            endDate: format(season.end, 'yyyy-MM-dd'),
+          }),
+          fetch('/api/water-matches?status=matched,override'),
+        ]);
+
+        const matchesResult = await matchesResponse.json();
+
+        if (!matchesResult.success) {
+          throw new Error(matchesResult.error || 'Failed to load stockings');
+        }
+
+        setSeasonEvents(events);
+        setWaterMatches(new Map(
+          (matchesResult.data as WaterBodyMatch[]).map((match) => [matchKey(match.location, match.county), match])
+        ));
+      } catch (error) {
+        // The stocking layer is an overlay; the rest of the map still works without it
+        console.error('Error loading stocking layer:', error);
+      }
+    }
+
+    loadStockings();
+  }, [season]);
+
+  // Load ArcGIS features in the current view (for popups and filtering); tiles already seen come from cache
   useEffect(() => {
-    async function loadArcGISData() {
+    if (!view) return;
+    let cancelled = false;
+
+    async function loadArcGISData(currentView: MapView) {
       setIsLoadingLayers(true);
       setError(null);
 
       try {
-        const data = await fetchAllArcGISLayers();
-        setDataLayers(data);
-        console.log('ArcGIS data loaded:', {
-          streams: data.streams.length,
-          locations: data.locations.length,
-          lakes: data.lakes.length,
+        const data = await fetchArcGISLayersInView(currentView, {
+          streams: activeArcGISLayers.has(LAYERS.TROUT_STREAMS.id),
+          locations: activeArcGISLayers.has(LAYERS.STOCKING_LOCATIONS.id),
+          lakes: activeArcGISLayers.has(LAYERS.PUBLIC_LAKES.id),
         });
+        if (cancelled) return;
+
+        setViewTooLarge(data === null);
+        setDataLayers(data);
       } catch (error) {
+        if (cancelled) return;
         console.error('Error loading ArcGIS data:', error);
         setError('Failed to load map data from Virginia DWR');
       } finally {
-        setIsLoadingLayers(false);
+        if (!cancelled) setIsLoadingLayers(false);
       }
     }
 
-    loadArcGISData();
-  }, [setIsLoadingLayers, setError]);
+    loadArcGISData(view);
+
+    // A newer view or layer selection supersedes this load
+    return () => {
+      cancelled = true;
+    };
+  }, [view, activeArcGISLayers, setIsLoadingLayers, setError]);
 
   const toggleArcGISLayer = (layerId: number) => {
     setActiveArcGISLayers((prev) => {
@@ -153,7 +239,7 @@ export default function MapTab() {
   };
 
   const getLayerColor = (layerId: number): string => {
-    return LAYER_STYLES[layerId]?.color || '#6b7280';
+    return getLayerById(layerId)?.style.color || '#6b7280';
   };
 
   if (!mounted) {
@@ -164,18 +250,6 @@ export default function MapTab() {
     );
   }
 
-  if (isLoadingLayers) {
-    return (
-      <div className="h-[600px] flex items-center justify-center bg-gray-50">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading Virginia DWR TroutApp layers...</p>
-          <p className="text-sm text-gray-500 mt-2">Connecting to ArcGIS MapServer</p>
-        </div>
-      </div>
-    );
-  }
-
   const currentBaseMap = BASE_MAPS[baseMap];
 
   return (
@@ -194,23 +268,35 @@ export default function MapTab() {
         
         {/* ArcGIS MapServer Layers */}
         <div className="space-y-2">
-          {Object.entries(LAYER_IDS).slice(0, 6).map(([, layerId]) => (
-            <label key={layerId} className="flex items-center gap-2 cursor-pointer text-sm">
+          {MAP_SERVER_LAYERS.map((layer) => (
+            <label key={layer.id} className="flex items-center gap-2 cursor-pointer text-sm">
               <input
                 type="checkbox"
-                checked={activeArcGISLayers.has(layerId)}
-                onChange={() => toggleArcGISLayer(layerId)}
+                checked={activeArcGISLayers.has(layer.id)}
+                onChange={() => toggleArcGISLayer(layer.id)}
                 className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
               />
-              <span className="flex-1">{LAYER_NAMES[layerId]}</span>
+              <span className="flex-1">{layer.name}</span>
               <span
                 className="w-3 h-3 rounded-full"
-                style={{ backgroundColor: getLayerColor(layerId) }}
+                style={{ backgroundColor: layer.style.color }}
               />
             </label>
           ))}
         </div>
 
+        {/* Recent Stockings Layer */}
+        <label className="flex items-center gap-2 cursor-pointer text-sm pt-3 border-t border-gray-200">
+          <input
+            type="checkbox"
+            checked={showStockings}
+            onChange={() => setShowStockings(!showStockings)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="flex-1">Recent Stockings</span>
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: RECENCY_BUCKETS[0].color }} />
+        </label>
+
         {/* Base Map Selector */}
         <div className="pt-3 border-t border-gray-200">
           <h4 className="font-medium text-xs text-gray-600 mb-2">Base Map</h4>
@@ -231,14 +317,20 @@ export default function MapTab() {
           </div>
         </div>
 
-        {/* Data Summary */}
-        {dataLayers && (
-          <div className="pt-3 border-t border-gray-200 text-xs text-gray-600">
-            <div>Streams: {dataLayers.streams.length}</div>
-            <div>Locations: {dataLayers.locations.length}</div>
-            <div>Lakes: {dataLayers.lakes.length}</div>
-          </div>
-        )}
+        {/* Data Summary (features in the current view) */}
+        <div className="pt-3 border-t border-gray-200 text-xs text-gray-600">
+          {isLoadingLayers ? (
+            <div>Loading features in view...</div>
+          ) : viewTooLarge ? (
+            <div>Zoom in to load features</div>
+          ) : dataLayers && (
+            <>
+              <div>Streams in view: {dataLayers.streams.length}</div>
+              <div>Locations in view: {dataLayers.locations.length}</div>
+              <div>Lakes in view: {dataLayers.lakes.length}</div>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Legend */}
@@ -252,13 +344,37 @@ export default function MapTab() {
                   className="w-4 h-1 rounded"
                   style={{ backgroundColor: getLayerColor(layerId) }}
                 />
-                <span className="text-gray-700">{LAYER_NAMES[layerId]}</span>
+                <span className="text-gray-700">{getLayerById(layerId)?.name}</span>
+              </div>
+            ))}
+            {showStockings && RECENCY_BUCKETS.map((bucket) => (
+              <div key={bucket.label} className="flex items-center gap-2">
+                <div
+                  className="w-3 h-3 rounded-full border border-gray-700"
+                  style={{ backgroundColor: bucket.color }}
+                />
+                <span className="text-gray-700">{bucket.label}</span>
               </div>
             ))}
           </div>
         </div>
       )}
 
+      {/* Stocking Date Slider */}
+      {showStockings && (
+        <div className="absolute bottom-4 right-4 z-[1000] bg-white rounded-lg shadow-lg p-3 w-96 max-w-[calc(100%-2rem)]">
+          <h4 className="font-semibold text-xs mb-2">Stockings as of</h4>
+          <StockingTimeline
+            start={season.start}
+            end={season.end}
+            value={referenceDate}
+            onChange={setReferenceDate}
+            playing={isPlaying}
+            onPlayingChange={setIsPlaying}
+          />
+        </div>
+      )}
+
       {/* Map Container */}
       <MapContainer
         center={[37.5, -79.5]}
@@ -274,8 +390,20 @@ export default function MapTab() {
           maxZoom={18}
         />
 
+        {/* Load features for the visible area */}
+        <ViewportWatcher onChange={setView} />
+
         {/* ESRI-Leaflet Dynamic Layers */}
         <ESRILayers activeLayers={activeArcGISLayers} />
+
+        {/* Stocking events at their matched locations */}
+        {showStockings && (
+          <StockingLayer
+            events={seasonEvents}
+            matches={waterMatches}
+            referenceDate={referenceDate}
+          />
+        )}
       </MapContainer>
 
       {/* Info Panel */}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CircleMarker, Popup } from 'react-leaflet';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { matchKey } from '../../lib/water-matching';
+import { StockingEvent, WaterBodyMatch } from '../../lib/types';
+import { speciesLabel } from '../../lib/canonical-entities';
+import { stockingDay } from '../../lib/stocking-season';
+
+export interface RecencyBucket {
+  label: string;
+  color: string;
+  // Inclusive range of days relative to the reference date (negative = in the past)
+  minDays: number;
+  maxDays: number;
+}
+
+// Ordered from most to least relevant; events outside every bucket are not drawn
+export const RECENCY_BUCKETS: RecencyBucket[] = [
+  { label: 'Stocked in last 3 days', color: '#dc2626', minDays: -3, maxDays: 0 },
+  { label: 'Stocked 4–7 days ago', color: '#f97316', minDays: -7, maxDays: -4 },
+  { label: 'Stocked 8–14 days ago', color: '#facc15', minDays: -14, maxDays: -8 },
+  { label: 'Stocked 15–30 days ago', color: '#84cc16', minDays: -30, maxDays: -15 },
+  { label: 'Scheduled in next 7 days', color: '#7c3aed', minDays: 1, maxDays: 7 },
+  { label: 'Scheduled in 8–14 days', color: '#c4b5fd', minDays: 8, maxDays: 14 },
+];
+
+export function getRecencyBucket(eventDate: Date, referenceDate: Date): RecencyBucket | null {
+  const days = differenceInCalendarDays(eventDate, referenceDate);
+  return RECENCY_BUCKETS.find((bucket) => days >= bucket.minDays && days <= bucket.maxDays) || null;
+}
+
+interface PlottedLocation {
+  key: string;
+  position: [number, number];
+  waterBody: string;
+  county: string;
+  bucket: RecencyBucket;
+  events: StockingEvent[];
+}
+
+interface StockingLayerProps {
+  events: StockingEvent[];
+  matches: Map<string, WaterBodyMatch>;
+  referenceDate: Date;
+}
+
+/**
+ * Plots stocking events at their matched map locations, colored by how long ago
+ * (or how soon) each water was stocked relative to the reference date
+ */
+export default function StockingLayer({ events, matches, referenceDate }: StockingLayerProps) {
+  const locations = useMemo(() => {
+    const byLocation = new Map<string, PlottedLocation>();
+
+    for (const event of events) {
+      const bucket = getRecencyBucket(stockingDay(event.date), referenceDate);
+      if (!bucket) continue;
+
+      const key = matchKey(event.waterBody, event.county);
+      const match = matches.get(key);
+      const position = match?.matches[0]?.position;
+      if (!position) continue;
+
+      const existing = byLocation.get(key);
+      if (!existing) {
+        byLocation.set(key, {
+          key,
+          position,
+          waterBody: event.waterBody,
+          county: event.county,
+          bucket,
+          events: [event],
+        });
+        continue;
+      }
+
+      existing.events.push(event);
+      // Keep the most relevant bucket for the marker color
+      if (RECENCY_BUCKETS.indexOf(bucket) < RECENCY_BUCKETS.indexOf(existing.bucket)) {
+        existing.bucket = bucket;
+      }
+    }
+
+    return Array.from(byLocation.values());
+  }, [events, matches, referenceDate]);
+
+  return (
+    <>
+      {locations.map((location) => (
+        <CircleMarker
+          key={location.key}
+          center={location.position}
+          radius={7}
+          pathOptions={{
+            color: '#1f2937',
+            weight: 1,
+            fillColor: location.bucket.color,
+            fillOpacity: 0.9,
+          }}
+        >
+          <Popup>
+            <div className="text-xs space-y-1">
+              <div className="font-semibold text-sm">{location.waterBody}</div>
+              <div className="text-gray-600">{location.county}</div>
+              <ul className="pt-1 space-y-0.5">
+                {location.events
+                  .slice()
+                  .sort((a, b) => b.date.localeCompare(a.date))
+                  .map((event) => (
+                    <li key={event.id}>
+                      {format(stockingDay(event.date), 'MMM d, yyyy')} — {speciesLabel(event.species)}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          </Popup>
+        </CircleMarker>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect } from 'react';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { Pause, Play } from 'lucide-react';
+
+const ANIMATION_STEP_MS = 400;
+
+interface StockingTimelineProps {
+  start: Date;
+  end: Date;
+  value: Date;
+  onChange: (date: Date) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+}
+
+/**
+ * Date slider for the stocking layer; "play" steps one day at a time through the season
+ */
+export default function StockingTimeline({
+  start,
+  end,
+  value,
+  onChange,
+  playing,
+  onPlayingChange,
+}: StockingTimelineProps) {
+  const totalDays = Math.max(0, differenceInCalendarDays(end, start));
+  const currentDay = Math.min(totalDays, Math.max(0, differenceInCalendarDays(value, start)));
+
+  useEffect(() => {
+    if (!playing) return;
+
+    if (currentDay >= totalDays) {
+      onPlayingChange(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      onChange(addDays(start, currentDay + 1));
+    }, ANIMATION_STEP_MS);
+
+    return () => clearTimeout(timer);
+  }, [playing, currentDay, totalDays, start, onChange, onPlayingChange]);
+
+  const togglePlaying = () => {
+    // Restart from the beginning when play is pressed at the end of the season
+    if (!playing && currentDay >= totalDays) {
+      onChange(start);
+    }
+    onPlayingChange(!playing);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={togglePlaying}
+        className="p-1.5 rounded bg-blue-600 text-white hover:bg-blue-700"
+        aria-label={playing ? 'Pause animation' : 'Play animation'}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={totalDays}
+        value={currentDay}
+        onChange={(e) => {
+          onPlayingChange(false);
+          onChange(addDays(start, parseInt(e.target.value, 10)));
+        }}
+        className="flex-1"
+        aria-label="Stocking date"
+      />
+      <span className="text-xs font-medium w-24 text-right">{format(value, 'MMM d, yyyy')}</span>
+      <button
+        onClick={() => {
+          onPlayingChange(false);
+          onChange(startOfDay(new Date()));
+        }}
+        className="text-xs text-blue-600 hover:text-blue-800"
+      >
+        Today
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { addDays, endOfWeek, format, startOfWeek, subDays } from 'date-fns';
+import { CalendarRange } from 'lucide-react';
+import { Input } from '../ui/input';
+import { getStockingSeason } from '../../lib/stocking-season';
+
+type PresetId = 'all' | 'this-week' | 'last-7-days' | 'next-14-days' | 'this-season' | 'custom';
+
+interface DateRangeValue {
+  start: string | null; // yyyy-MM-dd
+  end: string | null;
+}
+
+const PRESET_LABELS: Record<PresetId, string> = {
+  'all': 'All dates',
+  'this-week': 'This week',
+  'last-7-days': 'Last 7 days',
+  'next-14-days': 'Next 14 days',
+  'this-season': 'This season',
+  'custom': 'Custom',
+};
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Date range for a preset, relative to today
+ */
+function getPresetRange(preset: Exclude<PresetId, 'custom'>, today: Date = new Date()): DateRangeValue {
+  switch (preset) {
+    case 'this-week':
+      return { start: toDateString(startOfWeek(today)), end: toDateString(endOfWeek(today)) };
+    case 'last-7-days':
+      return { start: toDateString(subDays(today, 6)), end: toDateString(today) };
+    case 'next-14-days':
+      return { start: toDateString(today), end: toDateString(addDays(today, 13)) };
+    case 'this-season': {
+      const season = getStockingSeason(today);
+      return { start: toDateString(season.start), end: toDateString(season.end) };
+    }
+    default:
+      return { start: null, end: null };
+  }
+}
+
+/**
+ * Preset matching a stored range, so a reloaded range shows the right selection
+ */
+function detectPreset(value: DateRangeValue): PresetId {
+  const presets = Object.keys(PRESET_LABELS).filter((id) => id !== 'custom') as Array<Exclude<PresetId, 'custom'>>;
+  const match = presets.find((preset) => {
+    const range = getPresetRange(preset);
+    return range.start === value.start && range.end === value.end;
+  });
+  return match || 'custom';
+}
+
+interface DateRangePickerProps {
+  value: DateRangeValue;
+  onChange: (start: string | null, end: string | null) => void;
+}
+
+export default function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const [preset, setPreset] = useState<PresetId>(() => detectPreset(value));
+
+  const selectPreset = (next: PresetId) => {
+    setPreset(next);
+    if (next !== 'custom') {
+      const range = getPresetRange(next);
+      onChange(range.start, range.end);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <CalendarRange className="w-4 h-4 text-gray-500" />
+      <select
+        value={preset}
+        onChange={(e) => selectPreset(e.target.value as PresetId)}
+        className="h-10 px-3 border border-input rounded-md bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+        aria-label="Date range"
+      >
+        {(Object.keys(PRESET_LABELS) as PresetId[]).map((id) => (
+          <option key={id} value={id}>{PRESET_LABELS[id]}</option>
+        ))}
+      </select>
+      {preset === 'custom' && (
+        <>
+          <Input
+            type="date"
+            value={value.start || ''}
+            max={value.end || undefined}
+            onChange={(e) => onChange(e.target.value || null, value.end)}
+            className="w-40"
+            aria-label="Start date"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            value={value.end || ''}
+            min={value.start || undefined}
+            onChange={(e) => onChange(value.start, e.target.value || null)}
+            className="w-40"
+            aria-label="End date"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { StockingEvent } from '../../lib/types';
+import StockingStatusBadge from './StockingStatusBadge';
+import { StockingQuery, fetchAllStockingEvents } from '../../lib/stocking-query';
+
+type CalendarRange = 'month' | 'week';
+
+const MAX_EVENTS_PER_CELL = 3;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Calendar day key for an event; uses the stored date rather than the local-time
+ * conversion so a stocking never shifts to the previous day
+ */
+function dayKey(event: StockingEvent): string {
+  return event.date.slice(0, 10);
+}
+
+interface ScheduleCalendarProps {
+  // Schedule filters; the date range is intersected with the visible window
+  query: Partial<StockingQuery>;
+}
+
+export default function ScheduleCalendar({ query }: ScheduleCalendarProps) {
+  const [range, setRange] = useState<CalendarRange>('month');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [events, setEvents] = useState<StockingEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Visible days always span whole weeks
+  const days = useMemo(() => {
+    const start = range === 'month'
+      ? startOfWeek(startOfMonth(anchorDate))
+      : startOfWeek(anchorDate);
+    const end = range === 'month'
+      ? endOfWeek(endOfMonth(anchorDate))
+      : endOfWeek(anchorDate);
+    return eachDayOfInterval({ start, end });
+  }, [range, anchorDate]);
+
+  const windowStart = format(days[0], 'yyyy-MM-dd');
+  const windowEnd = format(days[days.length - 1], 'yyyy-MM-dd');
+
+  // Only query the part of the visible window inside the selected date range
+  const queryStart = query.startDate && query.startDate > windowStart ? query.startDate : windowStart;
+  const queryEnd = query.endDate && query.endDate < windowEnd ? query.endDate : windowEnd;
+
+  // Jump to the start of a newly selected date range
+  useEffect(() => {
+    if (query.startDate) {
+      setAnchorDate(parseISO(query.startDate));
+      setSelectedDay(null);
+    }
+  }, [query.startDate]);
+
+  // Load every matching stocking in the visible window
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadWindow() {
+      if (queryStart > queryEnd) {
+        setEvents([]);
+        return;
+      }
+
+      setIsLoading(true);
+      setLoadError(null);
+
+      try {
+        const windowEvents = await fetchAllStockingEvents({
+          counties: query.counties,
+          species: query.species,
+          search: query.search,
+          startDate: queryStart,
+          endDate: queryEnd,
+          sortBy: 'date',
+          sortOrder: 'asc',
+        });
+
+        if (!cancelled) {
+          setEvents(windowEvents);
+        }
+      } catch (error) {
+        console.error('Error loading calendar events:', error);
+        if (!cancelled) {
+          setLoadError('Failed to load stockings for this period');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadWindow();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, queryStart, queryEnd]);
+
+  const eventsByDay = useMemo(() => {
+    const grouped = new Map<string, StockingEvent[]>();
+    for (const event of events) {
+      const key = dayKey(event);
+      grouped.set(key, [...(grouped.get(key) || []), event]);
+    }
+    return grouped;
+  }, [events]);
+
+  const navigate = (direction: -1 | 1) => {
+    setAnchorDate((current) =>
+      range === 'month' ? addMonths(current, direction) : addWeeks(current, direction)
+    );
+    setSelectedDay(null);
+  };
+
+  const selectedEvents = selectedDay ? eventsByDay.get(selectedDay) || [] : [];
+  const title = range === 'month'
+    ? format(anchorDate, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="space-y-4">
+      {/* Calendar navigation */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setAnchorDate(new Date());
+              setSelectedDay(null);
+            }}
+          >
+            Today
+          </Button>
+          <h3 className="text-lg font-semibold ml-2">{title}</h3>
+          {isLoading && (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 ml-2"></div>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {(['month', 'week'] as CalendarRange[]).map((option) => (
+            <Button
+              key={option}
+              variant={range === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRange(option)}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loadError && (
+        <p className="text-sm text-red-600">{loadError}</p>
+      )}
+
+      {/* Calendar grid */}
+      <div className="grid grid-cols-7 border-l border-t border-gray-200 rounded-lg overflow-hidden">
+        {WEEKDAYS.map((weekday) => (
+          <div
+            key={weekday}
+            className="px-2 py-1 text-xs font-medium text-gray-500 uppercase bg-gray-50 border-r border-b border-gray-200"
+          >
+            {weekday}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = format(day, 'yyyy-MM-dd');
+          const dayEvents = eventsByDay.get(key) || [];
+          const isSelected = selectedDay === key;
+          const isOutside = range === 'month' && !isSameMonth(day, anchorDate);
+
+          return (
+            <button
+              key={key}
+              onClick={() => setSelectedDay(isSelected ? null : key)}
+              className={`text-left p-1.5 border-r border-b border-gray-200 align-top ${
+                range === 'month' ? 'min-h-24' : 'min-h-48'
+              } ${isSelected ? 'bg-blue-50' : 'bg-white hover:bg-gray-50'} ${
+                isOutside ? 'text-gray-400' : 'text-gray-900'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span
+                  className={`text-xs font-medium ${
+                    isToday(day) ? 'bg-blue-600 text-white rounded-full w-5 h-5 flex items-center justify-center' : ''
+                  }`}
+                >
+                  {format(day, 'd')}
+                </span>
+                {dayEvents.length > 0 && (
+                  <span className="text-[10px] text-gray-500">{dayEvents.length}</span>
+                )}
+              </div>
+              <div className="mt-1 space-y-0.5">
+                {dayEvents.slice(0, range === 'month' ? MAX_EVENTS_PER_CELL : dayEvents.length).map((event) => (
+                  <div key={event.id} className="truncate text-[11px] rounded bg-blue-100 text-blue-900 px-1">
+                    {event.waterBody}
+                  </div>
+                ))}
+                {range === 'month' && dayEvents.length > MAX_EVENTS_PER_CELL && (
+                  <div className="text-[11px] text-gray-500">
+                    +{dayEvents.length - MAX_EVENTS_PER_CELL} more
+                  </div>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Selected day details */}
+      {selectedDay && (
+        <Card className="p-4">
+          <h4 className="font-semibold mb-3">
+            {format(parseISO(selectedDay), 'EEEE, MMMM d, yyyy')}
+          </h4>
+          {selectedEvents.length === 0 ? (
+            <p className="text-sm text-gray-500">No stockings on this day.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {selectedEvents.map((event) => (
+                <li key={event.id} className="py-2 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{event.waterBody}</div>
+                    <div className="text-xs text-gray-600">{event.county}</div>
+                  </div>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {event.species.map((species) => (
+                      <Badge key={species} variant="secondary">{species}</Badge>
+                    ))}
+                    {event.category && <Badge variant="outline">{event.category}</Badge>}
+                    <StockingStatusBadge event={event} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,43 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { format } from 'date-fns';
-import { Download, Filter } from 'lucide-react';
+import { CalendarDays, CalendarPlus, Download, Filter, List } from 'lucide-react';
 import { useStore } from '../../lib/store';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Card } from '../ui/card';
 import { Checkbox } from '../ui/checkbox';
 import { Label } from '../ui/label';
-import { getSupabaseClient } from '../../lib/supabase';
 import { StockingEvent } from '../../lib/types';
+import { StockingFacets, StockingQuery, fetchAllStockingEvents, toSearchParams } from '../../lib/stocking-query';
+import ScheduleCalendar from './ScheduleCalendar';
+import DateRangePicker from './DateRangePicker';
+import StockingStatusBadge from './StockingStatusBadge';
+import { speciesLabel } from '../../lib/canonical-entities';
+import SyncStatusPanel from './SyncStatusPanel';
+import { stockingDay } from '../../lib/stocking-season';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface StockingPage {
+  data: StockingEvent[];
+  totalCount: number | null;
+  nextCursor: string | null;
+  facets?: StockingFacets;
+  lastUpdated: string | null;
+}
+
+async function fetchStockingPage(params: URLSearchParams): Promise<StockingPage> {
+  const response = await fetch(`/api/stocking-data?${params.toString()}`);
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load stocking data');
+  }
+
+  return result;
+}
 
 export default function ScheduleTab() {
   const {
@@ -24,9 +51,13 @@ export default function ScheduleTab() {
     clearSpecies,
     searchQuery,
     setSearchQuery,
+    dateRange,
+    setDateRange,
     sortBy,
     sortOrder,
     setSorting,
+    scheduleViewMode,
+    setScheduleViewMode,
     isLoadingEvents,
     setIsLoadingEvents,
     setError,
@@ -35,121 +66,93 @@ export default function ScheduleTab() {
 
   const [showFilters, setShowFilters] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [availableCounties, setAvailableCounties] = useState<string[]>([]);
+  const [availableSpecies, setAvailableSpecies] = useState<string[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState(searchQuery);
   
   // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loadingMore, setLoadingMore] = useState(false);
   const [totalCount, setTotalCount] = useState(0);
-  const [hasMore, setHasMore] = useState(true);
+  const latestRequest = useRef(0);
   const displayLimit = 20;
 
+  // Wait for typing to pause before querying
   useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Filters and sort applied server-side by /api/stocking-data
+  const query = useMemo<Partial<StockingQuery>>(() => ({
+    startDate: dateRange.start || undefined,
+    endDate: dateRange.end || undefined,
+    counties: selectedCounties,
+    species: selectedSpecies,
+    search: debouncedSearch,
+    sortBy,
+    sortOrder,
+  }), [dateRange, selectedCounties, selectedSpecies, debouncedSearch, sortBy, sortOrder]);
+
+  // Calendar feed for the current county/species filters (the feed picks its own date window)
+  const calendarFeedUrl = useMemo(() => {
+    const params = toSearchParams({ counties: selectedCounties, species: selectedSpecies }).toString();
+    return `/api/calendar/stockings.ics${params ? `?${params}` : ''}`;
+  }, [selectedCounties, selectedSpecies]);
+
+  // Reload the first page whenever the query changes
+  useEffect(() => {
+    const requestId = ++latestRequest.current;
+
     async function loadEvents() {
       setIsLoadingEvents(true);
       setError(null);
 
       try {
-        const supabase = getSupabaseClient();
-        
-        // Fetch first page (20 items) from Supabase
-        const { data, error, count } = await supabase
-          .from('trout_stocking_events')
-          .select('*', { count: 'exact' })
-          .order('stocking_date', { ascending: false })
-          .range(0, displayLimit - 1);
-
-        if (error) {
-          throw error;
-        }
+        const params = toSearchParams({ ...query, limit: displayLimit });
+        params.set('facets', 'true');
+
+        const result = await fetchStockingPage(params);
+
+        // Ignore responses for queries that have since changed
+        if (requestId !== latestRequest.current) return;
 
-        // Transform database records to StockingEvent format
-        const events: StockingEvent[] = (data || []).map((record: {
-          id: number;
-          stocking_date: string;
-          location: string;
-          county: string;
-          species: string;
-          number_of_fish: number | null;
-          size: string | null;
-        }) => ({
-          id: record.id.toString(),
-          waterBody: record.location,
-          county: record.county,
-          species: record.species,
-          date: new Date(record.stocking_date).toISOString(),
-          numberOfFish: record.number_of_fish ?? undefined,
-          category: record.size ?? undefined,
-        }));
-
-        // Get last sync time
-        const { data: syncData } = await supabase
-          .from('trout_stocking_events')
-          .select('updated_at')
-          .order('updated_at', { ascending: false })
-          .limit(1)
-          .maybeSingle() as { data: { updated_at: string } | null };
-
-        setStockingEvents(events);
-        setTotalCount(count || 0);
-        setHasMore((count || 0) > displayLimit);
-        setCurrentPage(1);
-        setCacheStatus({ isCached: true, lastUpdated: syncData?.updated_at || undefined });
-        setLastUpdated(syncData?.updated_at || null);
+        setStockingEvents(result.data);
+        setTotalCount(result.totalCount || 0);
+        setNextCursor(result.nextCursor);
+        if (result.facets) {
+          setAvailableCounties(result.facets.counties);
+          setAvailableSpecies(result.facets.species);
+        }
+        setCacheStatus({ isCached: true, lastUpdated: result.lastUpdated || undefined });
+        setLastUpdated(result.lastUpdated);
       } catch (error) {
         console.error('Error loading stocking events:', error);
         setError('Failed to load stocking data');
       } finally {
-        setIsLoadingEvents(false);
+        if (requestId === latestRequest.current) {
+          setIsLoadingEvents(false);
+        }
       }
     }
 
-    if (stockingEvents.length === 0) {
-      loadEvents();
-    }
-  }, [stockingEvents.length, setIsLoadingEvents, setError, setStockingEvents, setCacheStatus]);
+    loadEvents();
+  }, [query, setIsLoadingEvents, setError, setStockingEvents, setCacheStatus]);
 
   // Load more data (pagination)
   const loadMoreData = async () => {
+    if (!nextCursor) return;
+
+    const requestId = latestRequest.current;
     setLoadingMore(true);
     try {
-      const supabase = getSupabaseClient();
-      const nextPage = currentPage + 1;
-      const offset = currentPage * displayLimit;
-      
-      const { data, error } = await supabase
-        .from('trout_stocking_events')
-        .select('*')
-        .order('stocking_date', { ascending: false })
-        .range(offset, offset + displayLimit - 1);
-
-      if (error) {
-        throw error;
-      }
+      const result = await fetchStockingPage(toSearchParams({ ...query, limit: displayLimit, cursor: nextCursor }));
 
-      // Transform database records
-      const moreEvents: StockingEvent[] = (data || []).map((record: {
-        id: number;
-        stocking_date: string;
-        location: string;
-        county: string;
-        species: string;
-        number_of_fish: number | null;
-        size: string | null;
-      }) => ({
-        id: record.id.toString(),
-        waterBody: record.location,
-        county: record.county,
-        species: record.species,
-        date: new Date(record.stocking_date).toISOString(),
-        numberOfFish: record.number_of_fish ?? undefined,
-        category: record.size ?? undefined,
-      }));
+      if (requestId !== latestRequest.current) return;
 
       // Append to existing events
-      const updatedEvents = [...stockingEvents, ...moreEvents];
-      setStockingEvents(updatedEvents);
-      setCurrentPage(nextPage);
-      setHasMore(updatedEvents.length < totalCount);
+      setStockingEvents([...stockingEvents, ...result.data]);
+      setNextCursor(result.nextCursor);
     } catch (error) {
       console.error('Error loading more data:', error);
       setError('Failed to load more stocking data');
@@ -158,80 +161,17 @@ export default function ScheduleTab() {
     }
   };
 
-  // Get unique counties and species
-  const availableCounties = useMemo(() => {
-    const counties = new Set(stockingEvents.map(e => e.county).filter(Boolean));
-    return Array.from(counties).sort();
-  }, [stockingEvents]);
-
-  const availableSpecies = useMemo(() => {
-    const species = new Set(stockingEvents.map(e => e.species).filter(Boolean));
-    return Array.from(species).sort();
-  }, [stockingEvents]);
-
-  // Filter and sort events
-  const filteredEvents = useMemo(() => {
-    let filtered = [...stockingEvents];
-
-    // Apply county filter
-    if (selectedCounties.length > 0) {
-      filtered = filtered.filter(e => selectedCounties.includes(e.county));
-    }
-
-    // Apply species filter
-    if (selectedSpecies.length > 0) {
-      filtered = filtered.filter(e => selectedSpecies.includes(e.species));
-    }
-
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(e =>
-        e.waterBody.toLowerCase().includes(query) ||
-        e.county.toLowerCase().includes(query) ||
-        e.species.toLowerCase().includes(query)
-      );
-    }
-
-    // Sort
-    filtered.sort((a, b) => {
-      let compareA: string | number = a[sortBy] as string | number;
-      let compareB: string | number = b[sortBy] as string | number;
-
-      if (sortBy === 'date') {
-        compareA = new Date(a.date).getTime();
-        compareB = new Date(b.date).getTime();
-      } else {
-        compareA = compareA?.toString().toLowerCase() || '';
-        compareB = compareB?.toString().toLowerCase() || '';
-      }
-
-      if (compareA < compareB) return sortOrder === 'asc' ? -1 : 1;
-      if (compareA > compareB) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    return filtered;
-  }, [stockingEvents, selectedCounties, selectedSpecies, searchQuery, sortBy, sortOrder]);
-
-  // Export to CSV (exports all matching filtered data)
+  // Export to CSV (exports every event matching the current filters, not just loaded pages)
   const exportToCSV = async () => {
     try {
-      const dataToExport = filteredEvents;
-      
-      // If we have filters active and haven't loaded all data, we need to fetch all matching records
-      if (hasMore || filteredEvents.length < totalCount) {
-        // For simplicity with filters, export what's currently loaded and filtered
-        // Full export would require re-querying with filters applied server-side
-        console.log('Exporting currently loaded and filtered events');
-      }
+      const dataToExport = await fetchAllStockingEvents(query);
       
       const headers = ['Date', 'Water Body', 'County', 'Species', 'Pounds', 'Number of Fish'];
       const rows = dataToExport.map(e => [
-        format(new Date(e.date), 'yyyy-MM-dd'),
+        format(stockingDay(e.date), 'yyyy-MM-dd'),
         e.waterBody,
         e.county,
-        e.species,
+        speciesLabel(e.species),
         e.pounds || '',
         e.numberOfFish || '',
       ]);
@@ -241,7 +181,10 @@ export default function ScheduleTab() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `virginia-trout-stocking-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      const rangeLabel = dateRange.start || dateRange.end
+        ? `${dateRange.start || 'start'}_to_${dateRange.end || 'end'}`
+        : format(new Date(), 'yyyy-MM-dd');
+      a.download = `virginia-trout-stocking-${rangeLabel}.csv`;
       a.click();
     } catch (error) {
       console.error('Error exporting CSV:', error);
@@ -259,7 +202,7 @@ export default function ScheduleTab() {
     }
   };
 
-  if (isLoadingEvents) {
+  if (isLoadingEvents && stockingEvents.length === 0) {
     return (
       <div className="h-96 flex items-center justify-center">
         <div className="text-center">
@@ -276,16 +219,38 @@ export default function ScheduleTab() {
       <div className="mb-6 flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold">Trout Stocking Schedule</h2>
-          {lastUpdated && (
-            <p className="text-sm text-muted-foreground mt-1">
-              Data last synced: {format(new Date(lastUpdated), 'PPp')}
-            </p>
-          )}
+          <SyncStatusPanel fallbackLastUpdated={lastUpdated} />
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-input overflow-hidden">
+            <Button
+              variant={scheduleViewMode === 'list' ? 'default' : 'ghost'}
+              className="rounded-none"
+              onClick={() => setScheduleViewMode('list')}
+            >
+              <List className="w-4 h-4" />
+              List
+            </Button>
+            <Button
+              variant={scheduleViewMode === 'calendar' ? 'default' : 'ghost'}
+              className="rounded-none"
+              onClick={() => setScheduleViewMode('calendar')}
+            >
+              <CalendarDays className="w-4 h-4" />
+              Calendar
+            </Button>
+          </div>
+          <Button variant="outline" asChild>
+            <a href={calendarFeedUrl} title="Subscribe in Google or Apple Calendar">
+              <CalendarPlus className="w-4 h-4" />
+              Subscribe
+            </a>
+          </Button>
+          <Button onClick={exportToCSV}>
+            <Download className="w-4 h-4" />
+            Export CSV
+          </Button>
         </div>
-        <Button onClick={exportToCSV}>
-          <Download className="w-4 h-4" />
-          Export CSV
-        </Button>
       </div>
 
       {/* Search and filters */}
@@ -293,7 +258,7 @@ export default function ScheduleTab() {
         <div className="flex gap-4">
           <Input
             type="text"
-            placeholder="Search water body, county, or species..."
+            placeholder="Search water bodies..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="flex-1"
@@ -307,6 +272,8 @@ export default function ScheduleTab() {
           </Button>
         </div>
 
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
+
         {showFilters && (
           <Card className="p-4">
             <div className="grid grid-cols-2 gap-4">
@@ -366,96 +333,108 @@ export default function ScheduleTab() {
         )}
       </div>
 
-      {/* Results count */}
-      <div className="mb-4 text-sm text-gray-600">
-        Showing {filteredEvents.length} of {stockingEvents.length} events
-      </div>
-
-      {/* Table */}
-      <div className="overflow-x-auto border border-gray-200 rounded-lg">
-        <table className="w-full">
-          <thead className="bg-gray-50">
-            <tr>
-              {[
-                { key: 'date', label: 'Date' },
-                { key: 'waterBody', label: 'Water Body' },
-                { key: 'county', label: 'County' },
-                { key: 'species', label: 'Species' },
-              ].map(({ key, label }) => (
-                <th
-                  key={key}
-                  onClick={() => handleSort(key as 'date' | 'waterBody' | 'county' | 'species')}
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                >
-                  <div className="flex items-center gap-1">
-                    {label}
-                    {sortBy === key && (
-                      <span>
-                        {sortOrder === 'asc' ? '↑' : '↓'}
-                      </span>
-                    )}
-                  </div>
-                </th>
-              ))}
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Details
-              </th>
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {filteredEvents.map((event) => (
-              <tr key={event.id} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                  {format(new Date(event.date), 'MMM dd, yyyy')}
-                </td>
-                <td className="px-6 py-4 text-sm font-medium text-gray-900">
-                  {event.waterBody}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                  {event.county}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                  {event.species}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {event.pounds && `${event.pounds} lbs`}
-                  {event.pounds && event.numberOfFish && ' • '}
-                  {event.numberOfFish && `${event.numberOfFish} fish`}
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-
-      {filteredEvents.length === 0 && (
-        <div className="text-center py-12 text-gray-500">
-          No stocking events found. Try adjusting your filters.
-        </div>
-      )}
+      {scheduleViewMode === 'calendar' ? (
+        <ScheduleCalendar query={query} />
+      ) : (
+        <>
+          {/* Results count */}
+          <div className="mb-4 text-sm text-gray-600">
+            Showing {stockingEvents.length} of {totalCount} events
+            {isLoadingEvents && ' • Updating...'}
+          </div>
+
+          {/* Table */}
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {[
+                    { key: 'date', label: 'Date' },
+                    { key: 'waterBody', label: 'Water Body' },
+                    { key: 'county', label: 'County' },
+                    { key: 'species', label: 'Species' },
+                  ].map(({ key, label }) => (
+                    <th
+                      key={key}
+                      onClick={() => handleSort(key as 'date' | 'waterBody' | 'county' | 'species')}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    >
+                      <div className="flex items-center gap-1">
+                        {label}
+                        {sortBy === key && (
+                          <span>
+                            {sortOrder === 'asc' ? '↑' : '↓'}
+                          </span>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {stockingEvents.map((event) => (
+                  <tr key={event.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(stockingDay(event.date), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={event.status && event.status !== 'active' ? 'line-through text-gray-500' : ''}>
+                          {event.waterBody}
+                        </span>
+                        <StockingStatusBadge event={event} />
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {event.county}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {speciesLabel(event.species)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {event.pounds && `${event.pounds} lbs`}
+                      {event.pounds && event.numberOfFish && ' • '}
+                      {event.numberOfFish && `${event.numberOfFish} fish`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {stockingEvents.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No stocking events found. Try adjusting your filters.
+            </div>
+          )}
 
-      {/* Load More Button */}
-      {hasMore && filteredEvents.length > 0 && (
-        <div className="mt-6 text-center">
-          <Button
-            onClick={loadMoreData}
-            disabled={loadingMore}
-            variant="outline"
-            size="lg"
-          >
-            {loadingMore ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
-                Loading...
-              </>
-            ) : (
-              `Load More Stocking Events`
-            )}
-          </Button>
-          <p className="text-sm text-gray-500 mt-2">
-            Showing {stockingEvents.length} of {totalCount} total events
-          </p>
-        </div>
+          {/* Load More Button */}
+          {nextCursor && stockingEvents.length > 0 && (
+            <div className="mt-6 text-center">
+              <Button
+                onClick={loadMoreData}
+                disabled={loadingMore}
+                variant="outline"
+                size="lg"
+              >
+                {loadingMore ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                    Loading...
+                  </>
+                ) : (
+                  `Load More Stocking Events`
+                )}
+              </Button>
+              <p className="text-sm text-gray-500 mt-2">
+                Showing {stockingEvents.length} of {totalCount} total events
+              </p>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
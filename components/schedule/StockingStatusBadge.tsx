@@ -0,0 +1,25 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '../ui/badge';
+import { StockingEvent } from '../../lib/types';
+import { stockingDay } from '../../lib/stocking-season';
+
+/**
+ * Marks stockings DWR has cancelled or moved; renders nothing for active ones
+ */
+export default function StockingStatusBadge({ event }: { event: StockingEvent }) {
+  if (event.status === 'cancelled') {
+    return <Badge variant="destructive">Cancelled</Badge>;
+  }
+
+  if (event.status === 'rescheduled') {
+    return (
+      <Badge variant="outline" className="border-amber-300 text-amber-700">
+        {event.rescheduledTo ? `Moved to ${format(stockingDay(event.rescheduledTo.date), 'MMM d')}` : 'Rescheduled'}
+      </Badge>
+    );
+  }
+
+  return null;
+}
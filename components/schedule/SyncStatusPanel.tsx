@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle2, RefreshCw } from 'lucide-react';
+import { SyncRun } from '../../lib/types';
+
+interface SyncStatus {
+  lastSuccessfulSync: string | null;
+  latestRun: SyncRun | null;
+}
+
+interface SyncStatusPanelProps {
+  // Newest updated_at from /api/stocking-data, shown until a sync run has been recorded
+  fallbackLastUpdated?: string | null;
+}
+
+/**
+ * When the schedule was last refreshed successfully, and whether the latest sync failed or is still running
+ */
+export default function SyncStatusPanel({ fallbackLastUpdated }: SyncStatusPanelProps) {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/sync-status?limit=1')
+      .then((response) => response.json())
+      .then((result) => {
+        if (!cancelled && result.success) setStatus(result.data);
+      })
+      .catch((error) => console.error('Error loading sync status:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const lastRefreshed = status?.lastSuccessfulSync || fallbackLastUpdated;
+  const latestRun = status?.latestRun;
+
+  if (!lastRefreshed && !latestRun) {
+    return null;
+  }
+
+  return (
+    <div className="text-sm text-muted-foreground mt-1 space-y-0.5">
+      {lastRefreshed && (
+        <p className="flex items-center gap-1.5" title={format(new Date(lastRefreshed), 'PPpp')}>
+          <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+          Data last refreshed {formatDistanceToNow(new Date(lastRefreshed), { addSuffix: true })}
+        </p>
+      )}
+      {latestRun?.status === 'running' && (
+        <p className="flex items-center gap-1.5">
+          <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+          Sync in progress (started {formatDistanceToNow(new Date(latestRun.startedAt), { addSuffix: true })})
+        </p>
+      )}
+      {latestRun?.status === 'failed' && (
+        <p className="flex items-center gap-1.5 text-amber-700" title={latestRun.error || undefined}>
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Latest {latestRun.trigger === 'manual' ? 'manual ' : ''}sync failed{' '}
+          {formatDistanceToNow(new Date(latestRun.finishedAt || latestRun.startedAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+}
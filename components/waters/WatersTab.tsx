@@ -6,6 +6,7 @@ import { useStore } from '../../lib/store';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
+import { countyNameFor, eventCountyId, eventWaterId } from '../../lib/canonical-entities';
 
 export default function WatersTab() {
   const { stockingEvents } = useStore();
@@ -13,39 +14,55 @@ export default function WatersTab() {
   const [selectedCounty, setSelectedCounty] = useState<string>('all');
 
   interface WaterBody {
+    id: string;
     name: string;
+    countyId: string | null;
     county: string;
     events: typeof stockingEvents;
     species: Set<string>;
+    spellings: Map<string, number>; // DWR spellings of the water and how often each was used
     totalStockings: number;
   }
 
-  // Group events by water body
+  // Group events by canonical water, so spelling variants share one card
   const waterBodies = useMemo(() => {
     const grouped = stockingEvents.reduce((acc, event) => {
-      const key = event.waterBody;
+      const key = eventWaterId(event);
       if (!acc[key]) {
+        const countyId = eventCountyId(event);
         acc[key] = {
+          id: key,
           name: event.waterBody,
-          county: event.county,
+          countyId,
+          county: countyNameFor(countyId),
           events: [],
           species: new Set<string>(),
+          spellings: new Map<string, number>(),
           totalStockings: 0,
         };
       }
       acc[key].events.push(event);
-      acc[key].species.add(event.species);
+      event.species.forEach((species) => acc[key].species.add(species));
+      acc[key].spellings.set(event.waterBody, (acc[key].spellings.get(event.waterBody) || 0) + 1);
       acc[key].totalStockings += 1;
       return acc;
     }, {} as Record<string, WaterBody>);
 
-    return Object.values(grouped);
+    // Show each water under its most common spelling
+    return Object.values(grouped).map((water) => ({
+      ...water,
+      name: Array.from(water.spellings.entries()).sort((a, b) => b[1] - a[1])[0][0],
+    }));
   }, [stockingEvents]);
 
   // Get unique counties
   const counties = useMemo(() => {
-    const uniqueCounties = new Set(waterBodies.map((w) => w.county).filter(Boolean));
-    return Array.from(uniqueCounties).sort();
+    const uniqueCounties = new Map<string, string>();
+    waterBodies.forEach((w) => {
+      if (w.countyId) uniqueCounties.set(w.countyId, w.county);
+    });
+    return Array.from(uniqueCounties, ([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
   }, [waterBodies]);
 
   // Filter water bodies
@@ -54,7 +71,7 @@ export default function WatersTab() {
 
     // Apply county filter
     if (selectedCounty !== 'all') {
-      filtered = filtered.filter((w) => w.county === selectedCounty);
+      filtered = filtered.filter((w) => w.countyId === selectedCounty);
     }
 
     // Apply search filter
@@ -95,8 +112,8 @@ export default function WatersTab() {
             className="px-4 py-2 border border-input rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
           >
             <option value="all">All Counties</option>
-            {counties.map((county: string) => (
-              <option key={county} value={county}>{county}</option>
+            {counties.map((county) => (
+              <option key={county.id} value={county.id}>{county.name}</option>
             ))}
           </select>
         </div>
@@ -110,14 +127,14 @@ export default function WatersTab() {
       {/* Water bodies grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {filteredWaters.map((water) => (
-          <Card key={water.name} className="hover:shadow-lg transition-shadow">
+          <Card key={water.id} className="hover:shadow-lg transition-shadow">
             <CardHeader>
               <CardTitle className="text-lg">{water.name}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <MapPin className="w-4 h-4" />
-                <span>{water.county} County</span>
+                <span>{water.county}</span>
               </div>
 
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
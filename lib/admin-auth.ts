@@ -0,0 +1,84 @@
+// Admin authentication for privileged API routes
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { getSupabaseClient } from './supabase';
+
+// Supabase users with this app_metadata.role may use admin routes
+const ADMIN_ROLE = 'admin';
+
+export interface AdminIdentity {
+  method: 'token' | 'supabase';
+  id: string; // stable key for rate limiting: a token fingerprint or the Supabase user id
+}
+
+function bearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Whether the request carries the ADMIN_API_TOKEN as a bearer token
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const token = bearerToken(request);
+  return !!expected && !!token && safeEqual(token, expected);
+}
+
+/**
+ * Whether the request comes from the Vercel cron scheduler, which sends CRON_SECRET as a bearer token
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const expected = process.env.CRON_SECRET;
+  const token = bearerToken(request);
+  return !!expected && !!token && safeEqual(token, expected);
+}
+
+/**
+ * Whether the request comes from the sync edge function's post-sync hook, which sends SYNC_HOOK_SECRET as a
+ * bearer token
+ */
+export function isSyncHookRequest(request: NextRequest): boolean {
+  const expected = process.env.SYNC_HOOK_SECRET;
+  const token = bearerToken(request);
+  return !!expected && !!token && safeEqual(token, expected);
+}
+
+/**
+ * Resolve the admin behind a request: the ADMIN_API_TOKEN, or a Supabase access token
+ * whose user has app_metadata.role "admin". Returns null for anyone else
+ */
+export async function authenticateAdmin(request: NextRequest): Promise<AdminIdentity | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  if (isAdminRequest(request)) {
+    return { method: 'token', id: `token:${createHash('sha256').update(token).digest('hex').slice(0, 16)}` };
+  }
+
+  try {
+    const { data, error } = await getSupabaseClient().auth.getUser(token);
+    if (error || data.user?.app_metadata?.role !== ADMIN_ROLE) return null;
+
+    return { method: 'supabase', id: `user:${data.user.id}` };
+  } catch (error) {
+    console.error('Admin token verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Client address for per-IP limits (first X-Forwarded-For hop behind a proxy)
+ */
+export function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
@@ -1,41 +1,27 @@
 // ArcGIS FeatureServer integration for Virginia DWR geospatial data
 
 import { GeoJSONData, GeoJSONFeature, LayerType, LayerData } from './types';
+import { LAYER_TYPES, LayerDefinition, LayerField, getLayerForType, readField } from './layer-registry';
+import { ArcGISQueryProgress, queryAllFeatures } from './arcgis-paging';
 
-// Virginia DWR ArcGIS MapServer URLs (TroutApp service)
-const ARCGIS_BASE_URL = 'https://services.dwr.virginia.gov/arcgis/rest/services/Projects/TroutApp/MapServer';
+export interface FetchLayerOptions {
+  onProgress?: (progress: ArcGISQueryProgress) => void; // called as each page of features arrives
+}
 
-const LAYER_URLS = {
-  'stocked-streams': `${ARCGIS_BASE_URL}/0/query`,
-  'stocked-lakes': `${ARCGIS_BASE_URL}/1/query`,
-  'wild-streams': `${ARCGIS_BASE_URL}/2/query`,
-};
+// Fields every GeoJSON feature exposes, whatever the layer calls them
+const NORMALIZED_FIELDS: LayerField[] = ['name', 'county', 'type', 'species', 'description'];
 
 /**
- * Normalize field names from ArcGIS response
+ * Normalize field names from ArcGIS response using the layer's field mapping
  * Field names may vary in casing (Name, NAME, name)
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function normalizeProperties(properties: any): any {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const normalized: any = {};
-  
-  // Common field mappings with fallbacks
-  const fieldMappings = [
-    { target: 'name', sources: ['Name', 'NAME', 'name', 'WATER_NAME', 'WaterName'] },
-    { target: 'county', sources: ['County', 'COUNTY', 'county', 'COUNTY_NAME'] },
-    { target: 'type', sources: ['Type', 'TYPE', 'type', 'WATER_TYPE', 'WaterType'] },
-    { target: 'species', sources: ['Species', 'SPECIES', 'species', 'TROUT_SPECIES'] },
-    { target: 'description', sources: ['Description', 'DESCRIPTION', 'description', 'DESC'] },
-  ];
-
-  // Apply field mappings
-  fieldMappings.forEach(({ target, sources }) => {
-    for (const source of sources) {
-      if (properties[source] !== undefined && properties[source] !== null) {
-        normalized[target] = properties[source];
-        break;
-      }
+function normalizeProperties(properties: Record<string, unknown>, layer: LayerDefinition): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  NORMALIZED_FIELDS.forEach((field) => {
+    const value = readField(properties, layer, field);
+    if (value !== undefined) {
+      normalized[field] = value;
     }
   });
 
@@ -48,39 +34,33 @@ function normalizeProperties(properties: any): any {
 /**
  * Fetch GeoJSON data from a single layer
  */
-async function fetchLayerData(layerType: LayerType): Promise<GeoJSONData> {
-  const url = LAYER_URLS[layerType];
-  
-  // ArcGIS query parameters for GeoJSON output
-  const params = new URLSearchParams({
-    where: '1=1', // Get all features
-    outFields: '*', // Get all fields
-    f: 'geojson', // Request GeoJSON format
-    returnGeometry: 'true',
-  });
+async function fetchLayerData(layerType: LayerType, options: FetchLayerOptions = {}): Promise<GeoJSONData> {
+  const layer = getLayerForType(layerType);
+  if (layer.id === null) {
+    throw new Error(`${layerType} is not published by the MapServer`);
+  }
 
   try {
-    const response = await fetch(`${url}?${params.toString()}`, {
-      headers: {
-        'Accept': 'application/json',
+    // ArcGIS query parameters for GeoJSON output, paged past the layer's maxRecordCount
+    const data = await queryAllFeatures(layer.id, {
+      params: {
+        where: '1=1', // Get all features
+        outFields: '*', // Get all fields
+        f: 'geojson', // Request GeoJSON format
+        returnGeometry: 'true',
       },
+      onProgress: options.onProgress,
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-
     // Normalize feature properties
-    if (data.features && Array.isArray(data.features)) {
-      data.features = data.features.map((feature: GeoJSONFeature) => ({
+    return {
+      ...data,
+      type: 'FeatureCollection',
+      features: (data.features as GeoJSONFeature[]).map((feature) => ({
         ...feature,
-        properties: normalizeProperties(feature.properties),
-      }));
-    }
-
-    return data as GeoJSONData;
+        properties: normalizeProperties(feature.properties, layer),
+      })),
+    } as GeoJSONData;
   } catch (error) {
     console.error(`Error fetching ${layerType} data:`, error);
     throw new Error(`Failed to fetch ${layerType} data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -90,42 +70,22 @@ async function fetchLayerData(layerType: LayerType): Promise<GeoJSONData> {
 /**
  * Fetch all GeoJSON layers simultaneously with individual error handling
  */
-export async function fetchAllGeoJSONData(): Promise<LayerData[]> {
-  const layerTypes: LayerType[] = ['stocked-streams', 'stocked-lakes', 'wild-streams'];
-  
-  // Fetch all layers in parallel with individual error handling
-  const results = await Promise.all(
-    layerTypes.map(async (type) => {
-      try {
-        const data = await fetchLayerData(type);
-        console.log(`✓ Successfully fetched ${type} from external API`);
-        return {
-          type,
-          data,
-          lastUpdated: new Date().toISOString(),
-        };
-      } catch {
-        console.log(`✗ External API failed for ${type}, falling back to local data`);
-        // Fallback to local data for this specific layer
-        try {
-          return await fetchLocalGeoJSONData(type);
-        } catch (localError) {
-          console.error(`✗ Failed to load local data for ${type}:`, localError);
-          throw new Error(`Failed to load ${type}: external API and local fallback both failed`);
-        }
-      }
-    })
-  );
-
-  return results;
+export async function fetchAllGeoJSONData(options: FetchLayerOptions = {}): Promise<LayerData[]> {
+  // Fetch all layers in parallel; each falls back to its local snapshot on its own
+  return Promise.all(LAYER_TYPES.map((type) => fetchGeoJSONData(type, options)));
 }
 
 /**
  * Fetch a single layer's GeoJSON data with fallback
  */
-export async function fetchGeoJSONData(layerType: LayerType): Promise<LayerData> {
+export async function fetchGeoJSONData(layerType: LayerType, options: FetchLayerOptions = {}): Promise<LayerData> {
+  // Snapshot-only layers have nothing to fetch
+  if (getLayerForType(layerType).id === null) {
+    return fetchLocalGeoJSONData(layerType);
+  }
+
   try {
-    const data = await fetchLayerData(layerType);
+    const data = await fetchLayerData(layerType, options);
     console.log(`✓ Successfully fetched ${layerType} from external API`);
     return {
       type: layerType,
@@ -148,11 +108,10 @@ export async function fetchGeoJSONData(layerType: LayerType): Promise<LayerData>
  * Fetch local GeoJSON data (fallback when external API fails)
  */
 export async function fetchLocalGeoJSONData(layerType: LayerType): Promise<LayerData> {
-  const fileMap: Record<LayerType, string> = {
-    'stocked-streams': '/data/stocked-streams.json',
-    'stocked-lakes': '/data/stocked-lakes.json',
-    'wild-streams': '/data/wild-streams.json',
-  };
+  const snapshot = getLayerForType(layerType).snapshot;
+  if (!snapshot) {
+    throw new Error(`No local snapshot for ${layerType}`);
+  }
 
   try {
     // Use dynamic import for Node.js environment (server-side)
@@ -160,7 +119,7 @@ export async function fetchLocalGeoJSONData(layerType: LayerType): Promise<Layer
       const fs = await import('fs/promises');
       const path = await import('path');
       
-      const filePath = path.join(process.cwd(), 'public', fileMap[layerType]);
+      const filePath = path.join(process.cwd(), 'public', snapshot);
       const fileContent = await fs.readFile(filePath, 'utf-8');
       const data = JSON.parse(fileContent);
       
@@ -171,7 +130,7 @@ export async function fetchLocalGeoJSONData(layerType: LayerType): Promise<Layer
       };
     } else {
       // Client-side: use relative URL
-      const response = await fetch(fileMap[layerType]);
+      const response = await fetch(snapshot);
       if (!response.ok) {
         throw new Error(`Failed to load local data: ${response.status}`);
       }
@@ -194,10 +153,8 @@ export async function fetchLocalGeoJSONData(layerType: LayerType): Promise<Layer
  * Fetch all local GeoJSON layers
  */
 export async function fetchAllLocalGeoJSONData(): Promise<LayerData[]> {
-  const layerTypes: LayerType[] = ['stocked-streams', 'stocked-lakes', 'wild-streams'];
-  
   const results = await Promise.all(
-    layerTypes.map(async (type) => {
+    LAYER_TYPES.map(async (type) => {
       return fetchLocalGeoJSONData(type);
     })
   );
@@ -1,6 +1,8 @@
 // Client-side ArcGIS data fetching functions
 
-import { LAYER_IDS } from './arcgis-config';
+import { ArcGISGeometryType, LAYERS, LayerDefinition, LayerField, readField } from './layer-registry';
+import type { ArcGISQuery, QueryCondition, QueryEnvelope } from './arcgis-query';
+import { MapTile, tileKey, tileZoomFor, tilesForBounds } from './map-tiles';
 
 export interface TroutStream {
   id: string;
@@ -43,27 +45,27 @@ export interface PublicLake {
   properties: Record<string, unknown>;
 }
 
+export interface ArcGISFeature {
+  attributes: Record<string, unknown>;
+  geometry: unknown;
+}
+
 interface ArcGISResponse {
   success: boolean;
   data?: {
-    features: Array<{
-      attributes: Record<string, unknown>;
-      geometry: unknown;
-    }>;
+    features: ArcGISFeature[];
   };
   error?: string;
 }
 
-async function fetchArcGISLayer(layerId: number, where: string = '1=1'): Promise<ArcGISResponse> {
-  // Use server-side API route as proxy to avoid CORS issues
-  const params = new URLSearchParams({
-    layer: layerId.toString(),
-    where,
-    outFields: '*',
+async function fetchArcGISLayer(query: ArcGISQuery): Promise<ArcGISResponse> {
+  // Use server-side API route as proxy to avoid CORS issues; it validates and compiles the query
+  const response = await fetch('/api/arcgis', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(query),
   });
   
-  const response = await fetch(`/api/arcgis?${params.toString()}`);
-  
   if (!response.ok) {
     throw new Error(`HTTP error! status: ${response.status}`);
   }
@@ -77,10 +79,12 @@ async function fetchArcGISLayer(layerId: number, where: string = '1=1'): Promise
   return result;
 }
 
+type ESRIGeometry = { x?: number; y?: number; paths?: number[][][]; rings?: number[][][] };
+
 // Convert ESRI geometry to GeoJSON format
 function convertESRIGeometryToGeoJSON(
-  esriGeometry: { x?: number; y?: number; paths?: number[][][]; rings?: number[][][] },
-  geometryType: string
+  esriGeometry: ESRIGeometry,
+  geometryType: ArcGISGeometryType
 ): { type: string; coordinates: number[] | number[][] | number[][][] | number[][][][] } {
   if (geometryType === 'esriGeometryPoint' && esriGeometry.x !== undefined && esriGeometry.y !== undefined) {
     return {
@@ -105,81 +109,178 @@ function convertESRIGeometryToGeoJSON(
   };
 }
 
+function attributeReader(feature: ArcGISFeature, layer: LayerDefinition) {
+  return (field: LayerField, fallback: unknown = '') =>
+    String(readField(feature.attributes, layer, field) ?? fallback);
+}
+
+function speciesList(value: string): string[] {
+  return value.split(',').map((s: string) => s.trim()).filter(Boolean);
+}
+
+export function toTroutStream(feature: ArcGISFeature): TroutStream {
+  const layer = LAYERS.TROUT_STREAMS;
+  const field = attributeReader(feature, layer);
+  return {
+    id: field('id', 'unknown'),
+    name: field('name', 'Unnamed Stream'),
+    county: field('county', 'Unknown'),
+    species: speciesList(field('species')),
+    waterType: field('type', 'Stream'),
+    regulation: field('regulation', 'General'),
+    geometry: convertESRIGeometryToGeoJSON(feature.geometry as ESRIGeometry, layer.geometryType) as { type: 'LineString' | 'MultiLineString'; coordinates: number[][] | number[][][]; },
+    properties: feature.attributes,
+  };
+}
+
+export function toStockingLocation(feature: ArcGISFeature): StockingLocation {
+  const layer = LAYERS.STOCKING_LOCATIONS;
+  const field = attributeReader(feature, layer);
+  return {
+    id: field('id', 'unknown'),
+    name: field('name', 'Unnamed Location'),
+    county: field('county', 'Unknown'),
+    species: field('species', 'Unknown'),
+    stockingDate: field('stockingDate'),
+    waterBody: field('waterBody'),
+    geometry: convertESRIGeometryToGeoJSON(feature.geometry as ESRIGeometry, layer.geometryType) as { type: 'Point'; coordinates: [number, number]; },
+    properties: feature.attributes,
+  };
+}
+
+export function toPublicLake(feature: ArcGISFeature): PublicLake {
+  const layer = LAYERS.PUBLIC_LAKES;
+  const field = attributeReader(feature, layer);
+  return {
+    id: field('id', 'unknown'),
+    name: field('name', 'Unnamed Lake'),
+    county: field('county', 'Unknown'),
+    acres: parseFloat(field('acres', 0)),
+    species: speciesList(field('species')),
+    geometry: convertESRIGeometryToGeoJSON(feature.geometry as ESRIGeometry, layer.geometryType) as { type: 'Polygon' | 'MultiPolygon'; coordinates: number[][][] | number[][][][]; },
+    properties: feature.attributes,
+  };
+}
+
+function countyConditions(countyFilter?: string): QueryCondition[] {
+  return countyFilter ? [{ field: 'county', op: 'eq', value: countyFilter }] : [];
+}
+
 export async function fetchTroutStreamsClient(countyFilter?: string): Promise<TroutStream[]> {
-  const where = countyFilter ? `COUNTY = '${countyFilter}'` : '1=1';
-  const result = await fetchArcGISLayer(LAYER_IDS.TROUT_STREAMS, where);
+  const result = await fetchArcGISLayer({
+    layer: LAYERS.TROUT_STREAMS.id,
+    conditions: countyConditions(countyFilter),
+  });
   
   if (!result.data?.features) {
     return [];
   }
   
-  return result.data.features.map((feature: { attributes: Record<string, unknown>; geometry: unknown }) => {
-    const attrs = feature.attributes;
-    return {
-      id: String(attrs.OBJECTID || attrs.FID || attrs.ID || 'unknown'),
-      name: String(attrs.NAME || attrs.WATER_NAME || attrs.STREAM_NAME || 'Unnamed Stream'),
-      county: String(attrs.COUNTY || attrs.COUNTY_NAME || 'Unknown'),
-      species: String(attrs.SPECIES || attrs.TROUT_SPECIES || '').split(',').map((s: string) => s.trim()).filter(Boolean),
-      waterType: String(attrs.WATER_TYPE || attrs.TYPE || 'Stream'),
-      regulation: String(attrs.REGULATION || attrs.REG_TYPE || 'General'),
-      geometry: convertESRIGeometryToGeoJSON(feature.geometry as { x?: number; y?: number; paths?: number[][][]; rings?: number[][][] }, 'esriGeometryPolyline') as { type: 'LineString' | 'MultiLineString'; coordinates: number[][] | number[][][]; },
-      properties: attrs,
-    };
-  });
+  return result.data.features.map(toTroutStream);
 }
 
 export async function fetchStockingLocationsClient(countyFilter?: string): Promise<StockingLocation[]> {
-  const where = countyFilter ? `COUNTY = '${countyFilter}'` : '1=1';
-  const result = await fetchArcGISLayer(LAYER_IDS.STOCKING_LOCATIONS, where);
+  const result = await fetchArcGISLayer({
+    layer: LAYERS.STOCKING_LOCATIONS.id,
+    conditions: countyConditions(countyFilter),
+  });
   
   if (!result.data?.features) {
     return [];
   }
   
-  return result.data.features.map((feature: { attributes: Record<string, unknown>; geometry: unknown }) => {
-    const attrs = feature.attributes;
-    return {
-      id: String(attrs.OBJECTID || attrs.FID || attrs.ID || 'unknown'),
-      name: String(attrs.NAME || attrs.LOCATION || attrs.LOCATION_NAME || 'Unnamed Location'),
-      county: String(attrs.COUNTY || attrs.COUNTY_NAME || 'Unknown'),
-      species: String(attrs.SPECIES || attrs.TROUT_SPECIES || 'Unknown'),
-      stockingDate: String(attrs.STOCKING_DATE || attrs.STOCK_DATE || ''),
-      waterBody: String(attrs.WATER_BODY || attrs.WATER_NAME || attrs.NAME || ''),
-      geometry: convertESRIGeometryToGeoJSON(feature.geometry as { x?: number; y?: number; paths?: number[][][]; rings?: number[][][] }, 'esriGeometryPoint') as { type: 'Point'; coordinates: [number, number]; },
-      properties: attrs,
-    };
-  });
+  return result.data.features.map(toStockingLocation);
 }
 
 export async function fetchPublicLakesClient(countyFilter?: string): Promise<PublicLake[]> {
-  const where = countyFilter ? `COUNTY = '${countyFilter}'` : '1=1';
-  const result = await fetchArcGISLayer(LAYER_IDS.PUBLIC_LAKES, where);
+  const result = await fetchArcGISLayer({
+    layer: LAYERS.PUBLIC_LAKES.id,
+    conditions: countyConditions(countyFilter),
+  });
   
   if (!result.data?.features) {
     return [];
   }
   
-  return result.data.features.map((feature: { attributes: Record<string, unknown>; geometry: unknown }) => {
-    const attrs = feature.attributes;
-    return {
-      id: String(attrs.OBJECTID || attrs.FID || attrs.ID || 'unknown'),
-      name: String(attrs.NAME || attrs.LAKE_NAME || attrs.WATER_NAME || 'Unnamed Lake'),
-      county: String(attrs.COUNTY || attrs.COUNTY_NAME || 'Unknown'),
-      acres: parseFloat(String(attrs.ACRES || attrs.AREA_ACRES || 0)),
-      species: String(attrs.SPECIES || attrs.FISH_SPECIES || '').split(',').map((s: string) => s.trim()).filter(Boolean),
-      geometry: convertESRIGeometryToGeoJSON(feature.geometry as { x?: number; y?: number; paths?: number[][][]; rings?: number[][][] }, 'esriGeometryPolygon') as { type: 'Polygon' | 'MultiPolygon'; coordinates: number[][][] | number[][][][]; },
-      properties: attrs,
-    };
+  return result.data.features.map(toPublicLake);
+}
+
+export interface MapView {
+  bounds: QueryEnvelope;
+  zoom: number;
+}
+
+export interface ViewLayers {
+  streams: boolean;
+  locations: boolean;
+  lakes: boolean;
+}
+
+// Views spanning more tiles than this (zoomed far out) aren't loaded
+const MAX_TILES_PER_VIEW = 64;
+const MAX_CACHED_TILES = 600;
+
+// Features per layer and tile, kept across views so panning back is instant
+const tileCache = new Map<string, Promise<ArcGISFeature[]>>();
+
+function fetchTile(layerId: number, tile: MapTile): Promise<ArcGISFeature[]> {
+  const key = `${layerId}/${tileKey(tile)}`;
+  const cached = tileCache.get(key);
+  if (cached) return cached;
+
+  const features = fetchArcGISLayer({ layer: layerId, tile }).then((result) => result.data?.features || []);
+  // Failed tiles are retried on the next view
+  features.catch(() => tileCache.delete(key));
+  tileCache.set(key, features);
+
+  // Map keeps insertion order, so the first key is the oldest tile
+  if (tileCache.size > MAX_CACHED_TILES) {
+    tileCache.delete(tileCache.keys().next().value as string);
+  }
+
+  return features;
+}
+
+async function fetchLayerInView<T extends { id: string }>(
+  layerId: number,
+  tiles: MapTile[],
+  convert: (feature: ArcGISFeature) => T
+): Promise<T[]> {
+  const tileFeatures = await Promise.all(tiles.map((tile) => fetchTile(layerId, tile)));
+
+  // Features crossing tile edges come back from every tile they touch
+  const byId = new Map<string, T>();
+  tileFeatures.flat().forEach((feature) => {
+    const item = convert(feature);
+    byId.set(item.id, item);
   });
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Tiles to query for a map view, or null when the view is too large to load
+ */
+export function tilesInView(view: MapView): MapTile[] | null {
+  const tiles = tilesForBounds(view.bounds, tileZoomFor(view.zoom));
+  return tiles.length > MAX_TILES_PER_VIEW ? null : tiles;
 }
 
-// Fetch all layers for initial map load
-export async function fetchAllArcGISLayers() {
+/**
+ * Streams, stocking locations and lakes in a map view, read tile by tile through the proxy
+ * Tiles are generalized for their zoom level and cached here and on the server
+ */
+export async function fetchArcGISLayersInView(view: MapView, layers: ViewLayers) {
+  const tiles = tilesInView(view);
+  if (!tiles) {
+    return null;
+  }
+
   try {
     const [streams, locations, lakes] = await Promise.all([
-      fetchTroutStreamsClient(),
-      fetchStockingLocationsClient(),
-      fetchPublicLakesClient(),
+      layers.streams ? fetchLayerInView(LAYERS.TROUT_STREAMS.id, tiles, toTroutStream) : [],
+      layers.locations ? fetchLayerInView(LAYERS.STOCKING_LOCATIONS.id, tiles, toStockingLocation) : [],
+      layers.lakes ? fetchLayerInView(LAYERS.PUBLIC_LAKES.id, tiles, toPublicLake) : [],
     ]);
 
     return {
@@ -188,7 +289,7 @@ export async function fetchAllArcGISLayers() {
       lakes,
     };
   } catch (error) {
-    console.error('Error fetching ArcGIS layers:', error);
+    console.error('Error fetching ArcGIS layers in view:', error);
     throw error;
   }
 }
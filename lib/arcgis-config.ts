@@ -2,67 +2,7 @@
 
 export const ARCGIS_SERVICE_URL = 'https://services.dwr.virginia.gov/arcgis/rest/services/Projects/TroutApp/MapServer';
 
-export const LAYER_IDS = {
-  TROUT_STREAMS: 0,
-  STOCKING_LOCATIONS: 1,
-  STOCKING_EVENTS: 2,
-  TROUT_REGULATIONS: 3,
-  PUBLIC_LAKES: 4,
-  WILDLIFE_MANAGEMENT_AREAS: 5,
-};
-
-export const LAYER_NAMES: Record<number, string> = {
-  [LAYER_IDS.TROUT_STREAMS]: 'Trout Streams',
-  [LAYER_IDS.STOCKING_LOCATIONS]: 'Stocking Locations',
-  [LAYER_IDS.STOCKING_EVENTS]: 'Stocking Events',
-  [LAYER_IDS.TROUT_REGULATIONS]: 'Trout Regulations',
-  [LAYER_IDS.PUBLIC_LAKES]: 'Public Lakes',
-  [LAYER_IDS.WILDLIFE_MANAGEMENT_AREAS]: 'Wildlife Management Areas',
-};
-
-export const LAYER_STYLES: Record<number, {
-  color: string;
-  weight?: number;
-  radius?: number;
-  fillOpacity?: number;
-  opacity?: number;
-}> = {
-  [LAYER_IDS.TROUT_STREAMS]: {
-    color: '#2563eb', // Blue for streams
-    weight: 3,
-    opacity: 0.8,
-  },
-  [LAYER_IDS.STOCKING_LOCATIONS]: {
-    color: '#10b981', // Green for stocking locations
-    radius: 6,
-    fillOpacity: 0.7,
-    opacity: 1,
-  },
-  [LAYER_IDS.STOCKING_EVENTS]: {
-    color: '#f59e0b', // Orange for events
-    radius: 5,
-    fillOpacity: 0.6,
-    opacity: 0.9,
-  },
-  [LAYER_IDS.TROUT_REGULATIONS]: {
-    color: '#8b5cf6', // Purple for regulations
-    weight: 2,
-    fillOpacity: 0.3,
-    opacity: 0.7,
-  },
-  [LAYER_IDS.PUBLIC_LAKES]: {
-    color: '#06b6d4', // Cyan for lakes
-    weight: 2,
-    fillOpacity: 0.4,
-    opacity: 0.8,
-  },
-  [LAYER_IDS.WILDLIFE_MANAGEMENT_AREAS]: {
-    color: '#84cc16', // Lime green for WMAs
-    weight: 2,
-    fillOpacity: 0.2,
-    opacity: 0.6,
-  },
-};
+// Layer ids, names, styles and field mappings live in lib/layer-registry.ts
 
 export const QUERY_PARAMS = {
   where: '1=1',
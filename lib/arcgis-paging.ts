@@ -0,0 +1,205 @@
+// Paged ArcGIS layer queries: a single query stops at the layer's maxRecordCount, so larger layers are read
+// in pages with resultOffset/resultRecordCount, or in object-id batches where the layer can't paginate
+
+import { ARCGIS_SERVICE_URL } from './arcgis-config';
+import { getLayerSchema } from './arcgis-schema';
+
+const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_CONCURRENCY = 4;
+
+export interface ArcGISQueryProgress {
+  layerId: number;
+  fetched: number; // features received so far
+  total: number; // features the query matches
+  pagesDone: number;
+  pages: number;
+}
+
+export interface PagedQueryOptions {
+  params: Record<string, string>; // query parameters besides paging: where, outFields, f, outSR, ...
+  pageSize?: number; // capped at the layer's maxRecordCount
+  concurrency?: number; // pages requested at once
+  onProgress?: (progress: ArcGISQueryProgress) => void;
+}
+
+// The response envelope (fields, geometryType, spatialReference, ...) with every page's features
+export interface ArcGISQueryResult {
+  features: unknown[];
+  [key: string]: unknown;
+}
+
+interface FeatureLike {
+  id?: unknown;
+  attributes?: Record<string, unknown>;
+  properties?: Record<string, unknown>;
+}
+
+interface Page {
+  envelope: Record<string, unknown>;
+  features: unknown[];
+}
+
+async function runQuery(layerId: number, params: Record<string, string>): Promise<ArcGISQueryResult> {
+  // POST so long objectIds lists don't run into URL length limits
+  const response = await fetch(`${ARCGIS_SERVICE_URL}/${layerId}/query`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`ArcGIS API error: ${response.status}`);
+  }
+
+  // ArcGIS reports query errors as a 200 with an error body
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`ArcGIS query error: ${data.error.message || data.error.code}`);
+  }
+
+  return { ...data, features: data.features || [] };
+}
+
+// f=json sets exceededTransferLimit on the response, f=geojson on its properties
+function exceededTransferLimit(result: ArcGISQueryResult): boolean {
+  const properties = result.properties as Record<string, unknown> | undefined;
+  return result.exceededTransferLimit === true || properties?.exceededTransferLimit === true;
+}
+
+function toPage(result: ArcGISQueryResult): Page {
+  const { features, ...envelope } = result;
+  delete envelope.exceededTransferLimit;
+  return { envelope, features };
+}
+
+function objectIdOf(feature: unknown, objectIdField: string): unknown {
+  const { id, attributes, properties } = feature as FeatureLike;
+  return attributes?.[objectIdField] ?? properties?.[objectIdField] ?? id;
+}
+
+/**
+ * Map items through fn with at most `limit` calls in flight, keeping the input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Query every feature a layer matches, however many pages that takes
+ * Pages are requested with resultOffset/resultRecordCount when the layer supports pagination, otherwise in
+ * batches of object ids; a page the server cuts short (exceededTransferLimit) is continued where it stopped
+ */
+export async function queryAllFeatures(layerId: number, options: PagedQueryOptions): Promise<ArcGISQueryResult> {
+  const { params, concurrency = DEFAULT_CONCURRENCY, onProgress } = options;
+  const layer = await getLayerSchema(layerId);
+  const pageSize = Math.min(options.pageSize ?? Infinity, layer.maxRecordCount ?? DEFAULT_PAGE_SIZE);
+  const objectIdField = layer.objectIdField;
+
+  let fetched = 0;
+  let pagesDone = 0;
+  const reportPage = (page: Page, total: number, pages: number) => {
+    fetched += page.features.length;
+    pagesDone++;
+    onProgress?.({ layerId, fetched, total, pagesDone, pages });
+  };
+
+  const merge = (pages: Page[]): ArcGISQueryResult => ({
+    ...pages[0].envelope,
+    features: pages.flatMap((page) => page.features),
+  });
+
+  if (layer.supportsPagination) {
+    const { count = 0 } = await runQuery(layerId, { ...params, f: 'json', returnCountOnly: 'true' }) as { count?: number };
+    const offsets = Array.from({ length: Math.max(1, Math.ceil(count / pageSize)) }, (_, i) => i * pageSize);
+
+    const pages = await mapWithConcurrency(offsets, concurrency, async (start) => {
+      const end = Math.min(start + pageSize, count);
+      const features: unknown[] = [];
+      let envelope: Record<string, unknown> = {};
+
+      // The server may return fewer than requested (its own limit is lower); continue from where it stopped
+      for (let offset = start; ; ) {
+        const result = await runQuery(layerId, {
+          ...params,
+          resultOffset: String(offset),
+          resultRecordCount: String(Math.max(end - offset, 1)),
+          ...(objectIdField ? { orderByFields: objectIdField } : {}),
+        });
+        const part = toPage(result);
+        envelope = part.envelope;
+        features.push(...part.features);
+        offset += part.features.length;
+
+        if (offset >= end || part.features.length === 0 || !exceededTransferLimit(result)) break;
+      }
+
+      const page = { envelope, features };
+      reportPage(page, count, offsets.length);
+      return page;
+    });
+
+    return merge(pages);
+  }
+
+  if (objectIdField) {
+    const { objectIds } = await runQuery(layerId, { ...params, f: 'json', returnIdsOnly: 'true' }) as { objectIds?: number[] | null };
+    const ids = objectIds || [];
+
+    // Nothing matched: one unpaged query still returns the envelope (fields, geometryType) for an empty result
+    if (ids.length === 0) {
+      const empty = toPage(await runQuery(layerId, params));
+      reportPage(empty, 0, 1);
+      return merge([empty]);
+    }
+
+    const batches = Array.from({ length: Math.ceil(ids.length / pageSize) }, (_, i) => ids.slice(i * pageSize, (i + 1) * pageSize));
+
+    const pages = await mapWithConcurrency(batches, concurrency, async (batch) => {
+      const features: unknown[] = [];
+      let envelope: Record<string, unknown> = {};
+      let remaining = batch;
+
+      // Re-request the ids a truncated response left out
+      for (;;) {
+        const result = await runQuery(layerId, { ...params, objectIds: remaining.join(',') });
+        const part = toPage(result);
+        envelope = part.envelope;
+        features.push(...part.features);
+
+        const returned = new Set(part.features.map((feature) => objectIdOf(feature, objectIdField)));
+        remaining = remaining.filter((id) => !returned.has(id));
+
+        if (remaining.length === 0 || returned.size === 0 || !exceededTransferLimit(result)) break;
+      }
+
+      const page = { envelope, features };
+      reportPage(page, ids.length, batches.length);
+      return page;
+    });
+
+    return merge(pages);
+  }
+
+  // Neither paging nor object ids: a single query is all we can do
+  const result = await runQuery(layerId, params);
+  if (exceededTransferLimit(result)) {
+    console.warn(`ArcGIS layer ${layerId} was truncated at ${result.features.length} features`);
+  }
+  const page = toPage(result);
+  reportPage(page, page.features.length, 1);
+  return merge([page]);
+}
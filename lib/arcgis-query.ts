@@ -0,0 +1,343 @@
+// Typed ArcGIS queries: conditions on a layer's registered fields, compiled to MapServer query parameters
+// Field names are resolved against the discovered layer schema and values are quoted here, so callers
+// never send raw where clauses to DWR
+
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { QUERY_PARAMS } from './arcgis-config';
+import { ArcGISLayerSchema, getLayerSchema } from './arcgis-schema';
+import { LayerDefinition, LayerField, MapServerLayer, getLayerById, parseLayerId, resolveField } from './layer-registry';
+import {
+  MAX_MAP_ZOOM,
+  MAX_TILE_ZOOM,
+  MIN_TILE_ZOOM,
+  MapTile,
+  generalizationForZoom,
+  isValidTile,
+  tileBounds,
+} from './map-tiles';
+
+export type QueryValue = string | number;
+
+export type QueryCondition =
+  | { field: LayerField; op: 'eq' | 'ne'; value: QueryValue }
+  | { field: LayerField; op: 'in'; values: QueryValue[] }
+  | { field: LayerField; op: 'like'; value: string; match?: LikeMatch }
+  | { field: LayerField; op: 'dateRange'; from?: string; to?: string }; // yyyy-MM-dd, both inclusive
+
+export type LikeMatch = 'contains' | 'startsWith' | 'endsWith';
+
+// WGS84 degrees
+export interface QueryEnvelope {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+export interface ArcGISQuery {
+  layer: number; // MapServer layer id
+  conditions?: QueryCondition[]; // combined with AND
+  envelope?: QueryEnvelope; // features intersecting this box
+  tile?: MapTile; // or this map tile; its zoom also sets the generalization
+  zoom?: number; // map zoom the geometry is generalized for; full detail when omitted
+  outFields?: LayerField[]; // every field when omitted
+}
+
+/**
+ * Thrown for a query that names an unknown layer or field, uses an operator the field's type doesn't support,
+ * or has malformed values
+ */
+export class ArcGISQueryError extends Error {
+  constructor(message: string) {
+    super(`Invalid ArcGIS query: ${message}`);
+    this.name = 'ArcGISQueryError';
+  }
+}
+
+const OPERATORS = ['eq', 'ne', 'in', 'like', 'dateRange'];
+const LIKE_MATCHES: LikeMatch[] = ['contains', 'startsWith', 'endsWith'];
+const MAX_IN_VALUES = 500;
+const MAX_CONDITIONS = 20;
+
+const NUMERIC_FIELD_TYPES = new Set([
+  'esriFieldTypeOID',
+  'esriFieldTypeInteger',
+  'esriFieldTypeSmallInteger',
+  'esriFieldTypeDouble',
+  'esriFieldTypeSingle',
+]);
+const DATE_FIELD_TYPE = 'esriFieldTypeDate';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isQueryValue(value: unknown): value is QueryValue {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isDay(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+}
+
+function parseField(value: unknown, layer: MapServerLayer): LayerField {
+  const allowed = Object.keys(layer.fields);
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new ArcGISQueryError(`"${String(value)}" is not a queryable field of ${layer.name} (allowed: ${allowed.join(', ')})`);
+  }
+  return value as LayerField;
+}
+
+function parseCondition(input: unknown, layer: MapServerLayer): QueryCondition {
+  if (!isRecord(input)) {
+    throw new ArcGISQueryError('each condition must be an object');
+  }
+
+  const field = parseField(input.field, layer);
+  const { op } = input;
+
+  switch (op) {
+    case 'eq':
+    case 'ne':
+      if (!isQueryValue(input.value)) {
+        throw new ArcGISQueryError(`"${field}" ${op} needs a string or number value`);
+      }
+      return { field, op, value: input.value };
+
+    case 'in':
+      if (!Array.isArray(input.values) || input.values.length === 0 || !input.values.every(isQueryValue)) {
+        throw new ArcGISQueryError(`"${field}" in needs a non-empty array of strings or numbers`);
+      }
+      if (input.values.length > MAX_IN_VALUES) {
+        throw new ArcGISQueryError(`"${field}" in accepts at most ${MAX_IN_VALUES} values`);
+      }
+      return { field, op, values: input.values };
+
+    case 'like': {
+      const match = input.match ?? 'contains';
+      if (typeof input.value !== 'string' || input.value === '') {
+        throw new ArcGISQueryError(`"${field}" like needs a non-empty string value`);
+      }
+      if (!LIKE_MATCHES.includes(match as LikeMatch)) {
+        throw new ArcGISQueryError(`"${field}" like match must be one of ${LIKE_MATCHES.join(', ')}`);
+      }
+      return { field, op, value: input.value, match: match as LikeMatch };
+    }
+
+    case 'dateRange': {
+      const { from, to } = input;
+      if ((from !== undefined && !isDay(from)) || (to !== undefined && !isDay(to)) || (from === undefined && to === undefined)) {
+        throw new ArcGISQueryError(`"${field}" dateRange needs from and/or to as yyyy-MM-dd`);
+      }
+      if (from && to && from > to) {
+        throw new ArcGISQueryError(`"${field}" dateRange from is after to`);
+      }
+      return { field, op, from, to };
+    }
+
+    default:
+      throw new ArcGISQueryError(`unknown operator "${String(op)}" (expected one of ${OPERATORS.join(', ')})`);
+  }
+}
+
+function parseEnvelope(input: unknown): QueryEnvelope {
+  if (!isRecord(input)) {
+    throw new ArcGISQueryError('envelope must be an object with xmin, ymin, xmax and ymax');
+  }
+
+  const { xmin, ymin, xmax, ymax } = input;
+  const coordinates = [xmin, ymin, xmax, ymax];
+  if (!coordinates.every((value) => typeof value === 'number' && Number.isFinite(value))) {
+    throw new ArcGISQueryError('envelope coordinates must be numbers');
+  }
+
+  const envelope = { xmin, ymin, xmax, ymax } as QueryEnvelope;
+  if (envelope.xmin > envelope.xmax || envelope.ymin > envelope.ymax) {
+    throw new ArcGISQueryError('envelope min is greater than max');
+  }
+  if (envelope.xmin < -180 || envelope.xmax > 180 || envelope.ymin < -90 || envelope.ymax > 90) {
+    throw new ArcGISQueryError('envelope is outside WGS84 longitude/latitude bounds');
+  }
+
+  return envelope;
+}
+
+/**
+ * Validate an untrusted query (e.g. a request body) against the layer registry
+ */
+export function parseArcGISQuery(input: unknown): ArcGISQuery {
+  if (!isRecord(input)) {
+    throw new ArcGISQueryError('query must be an object');
+  }
+
+  const layerId = parseLayerId(input.layer);
+  const layer = layerId === null ? undefined : getLayerById(layerId);
+  if (!layer) {
+    throw new ArcGISQueryError(`unknown layer ${JSON.stringify(input.layer)}`);
+  }
+
+  const query: ArcGISQuery = { layer: layer.id };
+
+  if (input.conditions !== undefined) {
+    if (!Array.isArray(input.conditions) || input.conditions.length > MAX_CONDITIONS) {
+      throw new ArcGISQueryError(`conditions must be an array of at most ${MAX_CONDITIONS} conditions`);
+    }
+    query.conditions = input.conditions.map((condition) => parseCondition(condition, layer));
+  }
+
+  if (input.envelope !== undefined && input.tile !== undefined) {
+    throw new ArcGISQueryError('use either envelope or tile, not both');
+  }
+
+  if (input.envelope !== undefined) {
+    query.envelope = parseEnvelope(input.envelope);
+  }
+
+  if (input.tile !== undefined) {
+    const tile = isRecord(input.tile) ? { z: input.tile.z, x: input.tile.x, y: input.tile.y } as MapTile : null;
+    if (!tile || !isValidTile(tile)) {
+      throw new ArcGISQueryError(
+        `tile must be { z, x, y } integers with z from ${MIN_TILE_ZOOM} to ${MAX_TILE_ZOOM} and x, y inside the grid`
+      );
+    }
+    query.tile = tile;
+  }
+
+  if (input.zoom !== undefined) {
+    if (typeof input.zoom !== 'number' || !Number.isFinite(input.zoom) || input.zoom < 0 || input.zoom > MAX_MAP_ZOOM) {
+      throw new ArcGISQueryError(`zoom must be a number from 0 to ${MAX_MAP_ZOOM}`);
+    }
+    query.zoom = input.zoom;
+  }
+
+  if (input.outFields !== undefined) {
+    if (!Array.isArray(input.outFields) || input.outFields.length === 0) {
+      throw new ArcGISQueryError('outFields must be a non-empty array of field names');
+    }
+    query.outFields = input.outFields.map((field) => parseField(field, layer));
+  }
+
+  return query;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// LIKE wildcards in the value are matched literally
+function likePattern(value: string, match: LikeMatch): string {
+  const escaped = value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  const pattern = match === 'startsWith' ? `${escaped}%` : match === 'endsWith' ? `%${escaped}` : `%${escaped}%`;
+  return `${quote(pattern)} ESCAPE '\\'`;
+}
+
+function dateLiteral(day: string): string {
+  return `DATE ${quote(day)}`;
+}
+
+class QueryCompiler {
+  constructor(private layer: LayerDefinition, private schema: ArcGISLayerSchema) {}
+
+  // The MapServer attribute behind a registered field, and its type
+  column(field: LayerField): { name: string; type: string } {
+    const name = resolveField(this.schema.fields.map((f) => f.name), this.layer, field);
+    if (!name) {
+      throw new ArcGISQueryError(`${this.layer.name} has no "${field}" field on the MapServer`);
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name)) {
+      throw new ArcGISQueryError(`"${name}" is not a plain field name`);
+    }
+    return { name, type: this.schema.fields.find((f) => f.name === name)?.type || 'esriFieldTypeString' };
+  }
+
+  literal(field: LayerField, type: string, value: QueryValue): string {
+    if (NUMERIC_FIELD_TYPES.has(type)) {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (value === '' || !Number.isFinite(number)) {
+        throw new ArcGISQueryError(`"${field}" is numeric, got ${JSON.stringify(value)}`);
+      }
+      return String(number);
+    }
+    if (type === DATE_FIELD_TYPE) {
+      throw new ArcGISQueryError(`"${field}" is a date field; use dateRange`);
+    }
+    return quote(String(value));
+  }
+
+  clause(condition: QueryCondition): string {
+    const { name, type } = this.column(condition.field);
+
+    switch (condition.op) {
+      case 'eq':
+        return `${name} = ${this.literal(condition.field, type, condition.value)}`;
+      case 'ne':
+        return `${name} <> ${this.literal(condition.field, type, condition.value)}`;
+      case 'in':
+        return `${name} IN (${condition.values.map((value) => this.literal(condition.field, type, value)).join(', ')})`;
+      case 'like':
+        if (NUMERIC_FIELD_TYPES.has(type) || type === DATE_FIELD_TYPE) {
+          throw new ArcGISQueryError(`"${condition.field}" is not a text field; like needs one`);
+        }
+        return `${name} LIKE ${likePattern(condition.value, condition.match || 'contains')}`;
+      case 'dateRange': {
+        if (type !== DATE_FIELD_TYPE) {
+          throw new ArcGISQueryError(`"${condition.field}" is not a date field; dateRange needs one`);
+        }
+        const bounds: string[] = [];
+        if (condition.from) bounds.push(`${name} >= ${dateLiteral(condition.from)}`);
+        // Inclusive end day: before the start of the next day
+        if (condition.to) bounds.push(`${name} < ${dateLiteral(format(addDays(parseISO(condition.to), 1), 'yyyy-MM-dd'))}`);
+        return bounds.join(' AND ');
+      }
+    }
+  }
+}
+
+/**
+ * MapServer query parameters for a validated query, resolved against the layer's discovered schema
+ */
+export function buildQueryParams(query: ArcGISQuery, schema: ArcGISLayerSchema): Record<string, string> {
+  const layer = getLayerById(query.layer);
+  if (!layer) {
+    throw new ArcGISQueryError(`unknown layer ${query.layer}`);
+  }
+
+  const compiler = new QueryCompiler(layer, schema);
+  const clauses = (query.conditions || []).map((condition) => compiler.clause(condition));
+  const params: Record<string, string> = {
+    ...QUERY_PARAMS,
+    where: clauses.length > 0 ? clauses.map((clause) => `(${clause})`).join(' AND ') : '1=1',
+  };
+
+  if (query.outFields) {
+    // The object id is always returned so paged queries can tell features apart
+    const names = query.outFields.map((field) => compiler.column(field).name);
+    params.outFields = Array.from(new Set([schema.objectIdField, ...names].filter(Boolean))).join(',');
+  }
+
+  const envelope = query.envelope || (query.tile && tileBounds(query.tile));
+  if (envelope) {
+    params.geometry = JSON.stringify({ ...envelope, spatialReference: { wkid: 4326 } });
+    params.geometryType = 'esriGeometryEnvelope';
+    params.inSR = '4326';
+    params.spatialRel = 'esriSpatialRelIntersects';
+  }
+
+  const zoom = query.zoom ?? query.tile?.z;
+  if (zoom !== undefined) {
+    const { maxAllowableOffset, geometryPrecision } = generalizationForZoom(zoom);
+    params.maxAllowableOffset = String(maxAllowableOffset);
+    params.geometryPrecision = String(geometryPrecision);
+  }
+
+  return params;
+}
+
+/**
+ * Validate an untrusted query and compile it against the layer's (cached) schema
+ */
+export async function compileArcGISQuery(input: unknown): Promise<{ query: ArcGISQuery; params: Record<string, string> }> {
+  const query = parseArcGISQuery(input);
+  const schema = await getLayerSchema(query.layer);
+  return { query, params: buildQueryParams(query, schema) };
+}
@@ -0,0 +1,249 @@
+// MapServer schema discovery: reads the TroutApp service and layer metadata and checks the layer registry
+// against it, so a renamed layer or field on the DWR side is reported instead of producing "Unnamed Stream"
+
+import { ARCGIS_SERVICE_URL } from './arcgis-config';
+import { cache } from './cache';
+import { LayerField, MAP_SERVER_LAYERS, resolveField } from './layer-registry';
+
+const SCHEMA_CACHE_KEY = 'arcgis-schema';
+const SCHEMA_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// Without these a layer's features can't be named or told apart
+const REQUIRED_FIELDS: LayerField[] = ['id', 'name'];
+
+export interface ArcGISFieldSchema {
+  name: string;
+  type: string; // esriFieldTypeString, esriFieldTypeOID, ...
+  alias: string | null;
+}
+
+export interface ArcGISLayerSchema {
+  id: number;
+  name: string;
+  type: string; // Feature Layer, Group Layer, ...
+  geometryType: string | null;
+  fields: ArcGISFieldSchema[];
+  objectIdField: string | null;
+  maxRecordCount: number | null;
+  supportsPagination: boolean;
+}
+
+export interface MapServerSchema {
+  serviceUrl: string;
+  discoveredAt: string;
+  maxRecordCount: number | null;
+  layers: ArcGISLayerSchema[];
+}
+
+export type LayerSchemaIssueCode =
+  | 'missing-layer'
+  | 'unregistered-layer'
+  | 'name-mismatch'
+  | 'geometry-mismatch'
+  | 'unmapped-field';
+
+export interface LayerSchemaIssue {
+  layerId: number;
+  severity: 'error' | 'warning';
+  code: LayerSchemaIssueCode;
+  message: string;
+}
+
+// How each registered layer's fields resolve against the discovered schema (null when none of the sources exist)
+export type ResolvedLayerFields = Record<number, Partial<Record<LayerField, string | null>>>;
+
+export interface LayerSchemaReport {
+  schema: MapServerSchema;
+  resolvedFields: ResolvedLayerFields;
+  issues: LayerSchemaIssue[];
+  healthy: boolean; // no error-level issues
+}
+
+async function fetchMetadata<T>(url: string): Promise<T> {
+  const response = await fetch(`${url}?f=json`, {
+    headers: { 'Accept': 'application/json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`ArcGIS metadata error (${url}): ${response.status}`);
+  }
+
+  // ArcGIS reports errors as a 200 with an error body
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`ArcGIS metadata error (${url}): ${data.error.message || data.error.code}`);
+  }
+
+  return data as T;
+}
+
+interface ServiceMetadata {
+  maxRecordCount?: number;
+  layers?: Array<{ id: number; name: string }>;
+}
+
+interface LayerMetadata {
+  id: number;
+  name: string;
+  type?: string;
+  geometryType?: string;
+  fields?: Array<{ name: string; type: string; alias?: string }>;
+  objectIdField?: string;
+  maxRecordCount?: number;
+  advancedQueryCapabilities?: { supportsPagination?: boolean };
+}
+
+function layerCacheKey(layerId: number): string {
+  return `${SCHEMA_CACHE_KEY}-${layerId}`;
+}
+
+/**
+ * Read one layer's metadata from the MapServer
+ */
+export async function fetchLayerSchema(layerId: number, serviceUrl = ARCGIS_SERVICE_URL): Promise<ArcGISLayerSchema> {
+  const layer = await fetchMetadata<LayerMetadata>(`${serviceUrl}/${layerId}`);
+  const fields = (layer.fields || []).map((field) => ({
+    name: field.name,
+    type: field.type,
+    alias: field.alias || null,
+  }));
+
+  return {
+    id: layer.id,
+    name: layer.name,
+    type: layer.type || 'Feature Layer',
+    geometryType: layer.geometryType || null,
+    fields,
+    objectIdField: layer.objectIdField || fields.find((field) => field.type === 'esriFieldTypeOID')?.name || null,
+    maxRecordCount: layer.maxRecordCount ?? null,
+    supportsPagination: layer.advancedQueryCapabilities?.supportsPagination === true,
+  };
+}
+
+/**
+ * One layer's metadata, cached for a day
+ */
+export async function getLayerSchema(layerId: number): Promise<ArcGISLayerSchema> {
+  const cached = cache.get<ArcGISLayerSchema>(layerCacheKey(layerId));
+  if (cached) return cached;
+
+  const layer = await fetchLayerSchema(layerId);
+  cache.set(layerCacheKey(layerId), layer, SCHEMA_TTL);
+  return layer;
+}
+
+/**
+ * Read the service metadata and every layer's metadata from the MapServer
+ */
+export async function discoverMapServerSchema(serviceUrl = ARCGIS_SERVICE_URL): Promise<MapServerSchema> {
+  const service = await fetchMetadata<ServiceMetadata>(serviceUrl);
+  const layers = await Promise.all((service.layers || []).map(({ id }) => fetchLayerSchema(id, serviceUrl)));
+
+  return {
+    serviceUrl,
+    discoveredAt: new Date().toISOString(),
+    maxRecordCount: service.maxRecordCount ?? null,
+    layers,
+  };
+}
+
+/**
+ * Check the layer registry against a discovered schema: layer ids, names and geometry types, and whether each
+ * mapped field resolves to a field the layer actually has
+ */
+export function validateLayerRegistry(schema: MapServerSchema): LayerSchemaReport {
+  const issues: LayerSchemaIssue[] = [];
+  const resolvedFields: ResolvedLayerFields = {};
+  const discovered = new Map(schema.layers.map((layer) => [layer.id, layer]));
+
+  for (const layer of MAP_SERVER_LAYERS) {
+    const found = discovered.get(layer.id);
+
+    if (!found) {
+      issues.push({
+        layerId: layer.id,
+        severity: 'error',
+        code: 'missing-layer',
+        message: `Layer ${layer.id} (${layer.name}) is not published by the MapServer`,
+      });
+      continue;
+    }
+
+    if (found.name !== layer.name) {
+      issues.push({
+        layerId: layer.id,
+        severity: 'warning',
+        code: 'name-mismatch',
+        message: `Layer ${layer.id} is "${found.name}" on the MapServer but registered as "${layer.name}"`,
+      });
+    }
+
+    if (found.geometryType !== layer.geometryType) {
+      issues.push({
+        layerId: layer.id,
+        severity: 'error',
+        code: 'geometry-mismatch',
+        message: `Layer ${layer.id} (${layer.name}) has ${found.geometryType || 'no geometry'}, expected ${layer.geometryType}`,
+      });
+    }
+
+    const fieldNames = found.fields.map((field) => field.name);
+    resolvedFields[layer.id] = {};
+
+    for (const [field, sources] of Object.entries(layer.fields) as Array<[LayerField, string[]]>) {
+      const resolved = resolveField(fieldNames, layer, field) || null;
+      resolvedFields[layer.id][field] = resolved;
+
+      if (!resolved) {
+        issues.push({
+          layerId: layer.id,
+          severity: REQUIRED_FIELDS.includes(field) ? 'error' : 'warning',
+          code: 'unmapped-field',
+          message: `Layer ${layer.id} (${layer.name}) has none of ${sources.join(', ')} for "${field}"`,
+        });
+      }
+    }
+  }
+
+  const registeredIds = new Set(MAP_SERVER_LAYERS.map((layer) => layer.id));
+  for (const found of schema.layers) {
+    // Group layers only hold other layers
+    if (!registeredIds.has(found.id) && found.type !== 'Group Layer') {
+      issues.push({
+        layerId: found.id,
+        severity: 'warning',
+        code: 'unregistered-layer',
+        message: `MapServer layer ${found.id} (${found.name}) is not in the layer registry`,
+      });
+    }
+  }
+
+  return {
+    schema,
+    resolvedFields,
+    issues,
+    healthy: !issues.some((issue) => issue.severity === 'error'),
+  };
+}
+
+/**
+ * Discovered schema and validation report, cached for a day; refresh forces a new discovery
+ */
+export async function getLayerSchemaReport({ refresh = false } = {}): Promise<LayerSchemaReport> {
+  const cached = refresh ? null : cache.get<LayerSchemaReport>(SCHEMA_CACHE_KEY);
+  if (cached) return cached;
+
+  const report = validateLayerRegistry(await discoverMapServerSchema());
+  report.issues.forEach((issue) => {
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`ArcGIS schema ${issue.severity}: ${issue.message}`);
+  });
+
+  cache.set(SCHEMA_CACHE_KEY, report, SCHEMA_TTL);
+  report.schema.layers.forEach((layer) => cache.set(layerCacheKey(layer.id), layer, SCHEMA_TTL));
+  return report;
+}
+
+export function getLayerSchemaCacheStatus() {
+  return cache.getStatus(SCHEMA_CACHE_KEY);
+}
@@ -0,0 +1,242 @@
+// Historical backfill: walk the DWR schedule in month-sized windows with a checkpoint per window
+// Completed windows are skipped on the next run, so an interrupted backfill resumes where it stopped
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { addMonths, endOfMonth, format, isAfter, parseISO, startOfMonth } from 'date-fns';
+import { scrapeStockingSchedule } from './scraper';
+import { StockingSource } from './stocking-sources';
+import { StockingEventRepository } from './stocking-repository';
+import { normalizeScrapedEvents } from './canonical-entities';
+
+export const DEFAULT_BACKFILL_JOB = 'historical';
+export const DEFAULT_BACKFILL_START = '2015-01-01';
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+// Pause between windows so a long backfill doesn't hammer the DWR site
+const DEFAULT_WINDOW_DELAY_MS = 1000;
+
+export type CheckpointStatus = 'running' | 'completed' | 'failed';
+
+export interface BackfillWindow {
+  start: string; // yyyy-MM-dd, first day of the month (or the range start)
+  end: string; // yyyy-MM-dd, last day of the month (or the range end)
+}
+
+export interface BackfillCheckpoint extends BackfillWindow {
+  status: CheckpointStatus;
+  attempts: number;
+  eventsScraped: number;
+  recordsInserted: number;
+  lastError: string | null;
+}
+
+export interface BackfillOptions {
+  job?: string;
+  start?: string; // yyyy-MM-dd, defaults to DEFAULT_BACKFILL_START
+  end?: string; // yyyy-MM-dd, defaults to the end of the current month
+  rerun?: boolean; // process completed windows again
+  maxWindows?: number; // stop after this many windows (time-limited callers re-invoke to continue)
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  windowDelayMs?: number;
+  source?: StockingSource;
+  onWindow?: (checkpoint: BackfillCheckpoint) => void;
+}
+
+export interface BackfillSummary {
+  job: string;
+  windows: number; // windows in the requested range
+  processed: number;
+  skipped: number; // already completed
+  completed: number;
+  failed: number;
+  remaining: number; // windows left for a later run because of maxWindows
+  eventsScraped: number;
+  recordsInserted: number;
+  checkpoints: BackfillCheckpoint[];
+}
+
+type CheckpointRecord = Tables<'backfill_checkpoints'>;
+
+function toCheckpoint(record: CheckpointRecord): BackfillCheckpoint {
+  return {
+    start: record.window_start,
+    end: record.window_end,
+    status: record.status,
+    attempts: record.attempts,
+    eventsScraped: record.events_scraped,
+    recordsInserted: record.records_inserted,
+    lastError: record.last_error,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Month-sized windows covering start..end; the first and last windows are clipped to the range
+ */
+export function monthWindows(start: string, end: string): BackfillWindow[] {
+  const rangeStart = parseISO(start);
+  const rangeEnd = parseISO(end);
+  const windows: BackfillWindow[] = [];
+
+  for (let month = startOfMonth(rangeStart); !isAfter(month, rangeEnd); month = addMonths(month, 1)) {
+    const windowStart = isAfter(rangeStart, month) ? rangeStart : month;
+    const windowEnd = isAfter(endOfMonth(month), rangeEnd) ? rangeEnd : endOfMonth(month);
+    windows.push({ start: format(windowStart, 'yyyy-MM-dd'), end: format(windowEnd, 'yyyy-MM-dd') });
+  }
+
+  return windows;
+}
+
+export async function loadBackfillCheckpoints(
+  supabase: SupabaseClient<Database>,
+  job: string = DEFAULT_BACKFILL_JOB
+): Promise<BackfillCheckpoint[]> {
+  const { data, error } = await supabase
+    .from('backfill_checkpoints')
+    .select('*')
+    .eq('job', job)
+    .order('window_start', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as CheckpointRecord[]).map(toCheckpoint);
+}
+
+async function saveCheckpoint(supabase: SupabaseClient<Database>, job: string, checkpoint: BackfillCheckpoint) {
+  const record: CheckpointRecord & { updated_at: string } = {
+    job,
+    window_start: checkpoint.start,
+    window_end: checkpoint.end,
+    status: checkpoint.status,
+    attempts: checkpoint.attempts,
+    events_scraped: checkpoint.eventsScraped,
+    records_inserted: checkpoint.recordsInserted,
+    last_error: checkpoint.lastError,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('backfill_checkpoints')
+    .upsert(record, { onConflict: 'job,window_start' });
+
+  if (error) throw error;
+}
+
+/**
+ * Scrape and store one window, retrying with exponential backoff (2s, 4s, 8s...)
+ * A scrape that fell back to the default schedule page counts as a failed attempt
+ */
+async function runWindow(
+  supabase: SupabaseClient<Database>,
+  repository: StockingEventRepository,
+  job: string,
+  window: BackfillWindow,
+  options: BackfillOptions
+): Promise<BackfillCheckpoint> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  const checkpoint: BackfillCheckpoint = {
+    ...window,
+    status: 'running',
+    attempts: 0,
+    eventsScraped: 0,
+    recordsInserted: 0,
+    lastError: null,
+  };
+
+  while (checkpoint.attempts < maxAttempts) {
+    checkpoint.attempts++;
+    await saveCheckpoint(supabase, job, checkpoint);
+
+    try {
+      const scrape = await scrapeStockingSchedule({
+        startDate: parseISO(window.start),
+        endDate: parseISO(window.end),
+        source: options.source,
+      });
+
+      // The DWR source falls back to the current schedule page when the date search fails; that page is not
+      // this window, so completing on it would skip the month for good
+      const fallback = scrape.report.pages.find((page) => page.fetchMode === 'fallback');
+      if (fallback) {
+        throw new Error(`Date search failed; only the default schedule page (${fallback.url}) was fetched`);
+      }
+
+      const events = await normalizeScrapedEvents(supabase, scrape.events);
+      // Idempotent upsert, so re-running a window also refreshes canonical ids and changed details
+      const { inserted } = await repository.sync(events);
+
+      checkpoint.status = 'completed';
+      checkpoint.eventsScraped = events.length;
+      checkpoint.recordsInserted = inserted.length;
+      checkpoint.lastError = null;
+      break;
+    } catch (error) {
+      checkpoint.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Backfill window ${window.start}..${window.end} attempt ${checkpoint.attempts} failed:`, checkpoint.lastError);
+
+      if (checkpoint.attempts < maxAttempts) {
+        await sleep(retryDelayMs * 2 ** (checkpoint.attempts - 1));
+      } else {
+        checkpoint.status = 'failed';
+      }
+    }
+  }
+
+  await saveCheckpoint(supabase, job, checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Backfill a date range window by window
+ * Failed windows are recorded and the run moves on; re-running retries them, skipping completed windows
+ */
+export async function runBackfill(supabase: SupabaseClient<Database>, options: BackfillOptions = {}): Promise<BackfillSummary> {
+  const job = options.job || DEFAULT_BACKFILL_JOB;
+  const start = options.start || DEFAULT_BACKFILL_START;
+  const end = options.end || format(endOfMonth(new Date()), 'yyyy-MM-dd');
+  const windowDelayMs = options.windowDelayMs ?? DEFAULT_WINDOW_DELAY_MS;
+
+  const windows = monthWindows(start, end);
+  const completed = new Set(
+    (await loadBackfillCheckpoints(supabase, job))
+      .filter((checkpoint) => checkpoint.status === 'completed')
+      .map((checkpoint) => `${checkpoint.start}|${checkpoint.end}`)
+  );
+
+  const pending = windows.filter((window) => options.rerun || !completed.has(`${window.start}|${window.end}`));
+  const batch = options.maxWindows ? pending.slice(0, options.maxWindows) : pending;
+
+  console.log(`Backfill "${job}" ${start}..${end}: ${windows.length} windows, ${pending.length} to process`);
+
+  const repository = new StockingEventRepository(supabase);
+  const checkpoints: BackfillCheckpoint[] = [];
+
+  for (const [i, window] of batch.entries()) {
+    if (i > 0 && windowDelayMs > 0) {
+      await sleep(windowDelayMs);
+    }
+
+    const checkpoint = await runWindow(supabase, repository, job, window, options);
+    checkpoints.push(checkpoint);
+    options.onWindow?.(checkpoint);
+  }
+
+  return {
+    job,
+    windows: windows.length,
+    processed: checkpoints.length,
+    skipped: windows.length - pending.length,
+    completed: checkpoints.filter((c) => c.status === 'completed').length,
+    failed: checkpoints.filter((c) => c.status === 'failed').length,
+    remaining: pending.length - batch.length,
+    eventsScraped: checkpoints.reduce((sum, c) => sum + c.eventsScraped, 0),
+    recordsInserted: checkpoints.reduce((sum, c) => sum + c.recordsInserted, 0),
+    checkpoints,
+  };
+}
@@ -1,12 +1,18 @@
-// In-memory cache with TTL (Time-To-Live) support
+// In-memory cache with TTL (Time-To-Live) support and an optional entry limit
 
 import { CacheEntry, CacheStatus } from './types';
 
-class CacheManager {
+export class CacheManager {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private cache: Map<string, CacheEntry<any>> = new Map();
   private defaultTTL: number = 60 * 60 * 1000; // 1 hour in milliseconds
 
+  /**
+   * maxEntries bounds caches keyed on request input: past it, expired entries and then the least recently
+   * used ones are evicted
+   */
+  constructor(private maxEntries: number = Infinity) {}
+
   /**
    * Set a value in the cache with optional TTL
    */
@@ -14,11 +20,17 @@ class CacheManager {
     const timestamp = Date.now();
     const expiresAt = timestamp + (ttl || this.defaultTTL);
     
+    // Re-inserted so the key moves to the most recently used end
+    this.cache.delete(key);
     this.cache.set(key, {
       data,
       timestamp,
       expiresAt,
     });
+
+    if (this.cache.size > this.maxEntries) {
+      this.evict(timestamp);
+    }
   }
 
   /**
@@ -37,9 +49,29 @@ class CacheManager {
       return null;
     }
 
+    if (this.maxEntries !== Infinity) {
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+
     return entry.data as T;
   }
 
+  /**
+   * Drop expired entries, then the least recently used (Map keeps insertion order, so the first keys) until
+   * the cache is back within maxEntries
+   */
+  private evict(now: number): void {
+    this.cache.forEach((entry, key) => {
+      if (now > entry.expiresAt) this.cache.delete(key);
+    });
+
+    const keys = this.cache.keys();
+    while (this.cache.size > this.maxEntries) {
+      this.cache.delete(keys.next().value as string);
+    }
+  }
+
   /**
    * Get cache status for a key
    */
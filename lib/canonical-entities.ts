@@ -0,0 +1,207 @@
+// Canonical Water and County entities: spelling variants ("Big Stony Cr." / "Big Stony Creek",
+// "Augusta" / "Augusta County") resolve to one id, optionally steered by the alias tables
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TablesInsert } from './database';
+import { County, StockingEvent, Water } from './types';
+import { normalizeCountyName, normalizeWaterTokens } from './water-matching';
+
+const UNKNOWN_COUNTY = 'Unknown';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+function slugify(normalized: string): string {
+  return normalized.replace(/\s+/g, '-');
+}
+
+function titleCase(normalized: string): string {
+  return normalized.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Raw spelling as stored in the alias tables: trimmed, lower-cased, single spaces
+ */
+export function aliasKey(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Canonical county id ("City of Roanoke" -> "roanoke-city"), or null for a missing or unknown county
+ */
+export function countyIdFor(raw: string | null | undefined): string | null {
+  const normalized = normalizeCountyName(raw);
+  return normalized ? slugify(normalized) : null;
+}
+
+/**
+ * Display name for a county id: "augusta" -> "Augusta County", "roanoke-city" -> "Roanoke City"
+ */
+export function countyNameFor(id: string | null): string {
+  if (!id) return UNKNOWN_COUNTY;
+
+  const name = titleCase(id.replace(/-/g, ' '));
+  return id.endsWith('-city') ? name : `${name} County`;
+}
+
+/**
+ * Canonical water id: the normalized name plus its county, since many creek names recur across counties
+ */
+export function waterIdFor(raw: string, countyId: string | null): string {
+  const name = slugify(normalizeWaterTokens(raw));
+  return countyId ? `${name}--${countyId}` : name;
+}
+
+/**
+ * Species of a stocking as one label: "Rainbow Trout + Brown Trout", or "Unknown"
+ */
+export function speciesLabel(species: string[]): string {
+  return species.length > 0 ? species.join(' + ') : 'Unknown';
+}
+
+export function eventCountyId(event: StockingEvent): string | null {
+  return event.countyId || countyIdFor(event.county);
+}
+
+/**
+ * Water id of an event, computed for rows stored before canonical ids existed
+ */
+export function eventWaterId(event: StockingEvent): string {
+  return event.waterId || waterIdFor(event.waterBody, eventCountyId(event));
+}
+
+/**
+ * Resolves raw scraped names to canonical entities
+ * Alias rows take precedence over the computed ids: when normalization can't tell two spellings are the same
+ * place, point one at the other's entity in water_aliases or county_aliases
+ */
+export class EntityResolver {
+  constructor(
+    private countyAliases: Map<string, string> = new Map(), // alias -> county id
+    private waterAliases: Map<string, string> = new Map() // "alias|county id" -> water id
+  ) {}
+
+  county(raw: string | null | undefined): County | null {
+    const id = (raw && this.countyAliases.get(aliasKey(raw))) || countyIdFor(raw);
+    return id ? { id, name: countyNameFor(id) } : null;
+  }
+
+  water(raw: string, countyId: string | null): Water {
+    return {
+      id: this.waterAliases.get(`${aliasKey(raw)}|${countyId || ''}`) || waterIdFor(raw, countyId),
+      name: raw.trim(),
+      countyId,
+    };
+  }
+
+  /**
+   * Attach canonical ids and replace the county with its canonical name; the water body keeps DWR's spelling
+   */
+  normalizeEvent(event: StockingEvent): StockingEvent {
+    const county = this.county(event.county);
+    const water = this.water(event.waterBody, county?.id || null);
+
+    return {
+      ...event,
+      county: county?.name || UNKNOWN_COUNTY,
+      countyId: county?.id,
+      waterId: water.id,
+    };
+  }
+}
+
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await page(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const batch = data || [];
+    rows.push(...batch);
+
+    if (batch.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+export async function loadEntityResolver(supabase: SupabaseClient<Database>): Promise<EntityResolver> {
+  const [countyRows, waterRows] = await Promise.all([
+    selectAll((from, to) =>
+      supabase.from('county_aliases').select('alias, county_id').order('alias', { ascending: true }).range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabase.from('water_aliases').select('alias, county_id, water_id').order('alias', { ascending: true }).range(from, to)
+    ),
+  ]);
+
+  return new EntityResolver(
+    new Map(countyRows.map((row) => [row.alias, row.county_id])),
+    new Map(waterRows.map((row) => [`${row.alias}|${row.county_id}`, row.water_id]))
+  );
+}
+
+/**
+ * Register the entities and spellings behind raw scraped events (before normalizeEvent replaces the county)
+ * Existing rows are left alone, so edited names and aliases survive later syncs
+ */
+export async function registerEntities(
+  supabase: SupabaseClient<Database>,
+  resolver: EntityResolver,
+  rawEvents: StockingEvent[]
+): Promise<void> {
+  if (rawEvents.length === 0) return;
+
+  const counties = new Map<string, TablesInsert<'counties'>>();
+  const countyAliases = new Map<string, TablesInsert<'county_aliases'>>();
+  const waters = new Map<string, TablesInsert<'waters'>>();
+  const waterAliases = new Map<string, TablesInsert<'water_aliases'>>();
+
+  for (const event of rawEvents) {
+    const county = resolver.county(event.county);
+    const water = resolver.water(event.waterBody, county?.id || null);
+
+    if (county) {
+      counties.set(county.id, { id: county.id, name: county.name });
+      countyAliases.set(aliasKey(event.county), { alias: aliasKey(event.county), county_id: county.id });
+    }
+
+    if (!waters.has(water.id)) {
+      waters.set(water.id, { id: water.id, name: water.name, county_id: water.countyId });
+    }
+    const alias = { alias: aliasKey(event.waterBody), county_id: county?.id || '', water_id: water.id };
+    waterAliases.set(`${alias.alias}|${alias.county_id}`, alias);
+  }
+
+  // Counties before waters, and entities before aliases, for the foreign keys
+  const writes = [
+    () => supabase.from('counties').upsert(Array.from(counties.values()), { onConflict: 'id', ignoreDuplicates: true }),
+    () =>
+      supabase
+        .from('county_aliases')
+        .upsert(Array.from(countyAliases.values()), { onConflict: 'alias', ignoreDuplicates: true }),
+    () => supabase.from('waters').upsert(Array.from(waters.values()), { onConflict: 'id', ignoreDuplicates: true }),
+    () =>
+      supabase
+        .from('water_aliases')
+        .upsert(Array.from(waterAliases.values()), { onConflict: 'alias,county_id', ignoreDuplicates: true }),
+  ];
+
+  for (const write of writes) {
+    const { error } = await write();
+    if (error) throw error;
+  }
+}
+
+/**
+ * Ingest step for scraped events: register their entities and spellings, then normalize them
+ */
+export async function normalizeScrapedEvents(supabase: SupabaseClient<Database>, events: StockingEvent[]): Promise<StockingEvent[]> {
+  const resolver = await loadEntityResolver(supabase);
+  await registerEntities(supabase, resolver, events);
+  return events.map((event) => resolver.normalizeEvent(event));
+}
@@ -0,0 +1,229 @@
+// Supabase schema types for createClient<Database>(): the row, insert and update shape of every table the app uses
+// Maintained by hand alongside supabase/migrations; columns with a database default are optional on insert
+
+import type {
+  AlertChannelKind,
+  FeatureMatch,
+  MatchFeatureLayer,
+  MatchStatus,
+  ScrapeAnomaly,
+  ScrapeReport,
+  StockingChange,
+  StockingStatus,
+  SyncRunStatus,
+  SyncTrigger,
+} from './types';
+import type { CheckpointStatus } from './backfill';
+import type { WebhookDeliveryStatus, WebhookPayload } from './webhooks';
+
+type Table<Row, Defaulted extends keyof Row = never> = {
+  Row: Row;
+  Insert: Omit<Row, Defaulted> & Partial<Pick<Row, Defaulted>>;
+  Update: Partial<Row>;
+  Relationships: [];
+};
+
+type StockingEventsRow = {
+  id: number;
+  event_key: string;
+  stocking_date: string; // yyyy-MM-dd
+  location: string;
+  county: string;
+  species: string[];
+  species_label: string; // species joined with " + ", for sorting and the event key
+  size: string | null;
+  number_of_fish: number | null;
+  water_id: string | null; // canonical ids; null only for rows not re-synced since they were added
+  county_id: string | null;
+  status: StockingStatus;
+  rescheduled_to: number | null;
+  rescheduled_date: string | null; // yyyy-MM-dd
+  created_at: string;
+  updated_at: string;
+};
+
+type StockingEventHistoryRow = {
+  id: number;
+  event_id: number;
+  change: StockingChange;
+  previous_status: StockingStatus | null;
+  status: StockingStatus;
+  details: Record<string, unknown> | null;
+  created_at: string;
+};
+
+type WaterBodyMatchesRow = {
+  id: number;
+  location: string;
+  county: string;
+  status: MatchStatus;
+  matches: FeatureMatch[];
+  matched_at: string;
+};
+
+type WaterBodyOverridesRow = {
+  id: number;
+  location: string;
+  county: string;
+  layer: MatchFeatureLayer;
+  feature_id: string;
+  created_at: string;
+};
+
+type StockingSubscriptionsRow = {
+  id: string;
+  channel: AlertChannelKind;
+  target: Record<string, unknown> | null;
+  water_ids: string[] | null; // canonical ids, matched by subscriptionMatchesEvent
+  county_ids: string[] | null;
+  species: string[] | null;
+  active: boolean;
+  token: string;
+  confirmed_at: string | null;
+  created_at: string;
+};
+
+type AlertDeliveriesRow = {
+  id: number;
+  subscription_id: string;
+  event_id: number;
+  channel: AlertChannelKind;
+  status: 'sent' | 'failed';
+  error: string | null;
+  delivered_at: string;
+};
+
+type WebhookEndpointsRow = {
+  id: string;
+  url: string;
+  secret: string;
+  description: string | null;
+  active: boolean;
+  created_at: string;
+};
+
+type WebhookDeliveriesRow = {
+  id: number;
+  endpoint_id: string;
+  event_type: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  replay_of: number | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+type ScrapeRunsRow = {
+  id: number;
+  source: string;
+  healthy: boolean;
+  event_count: number;
+  anomalies: ScrapeAnomaly[] | null;
+  report: ScrapeReport | null;
+  error: string | null;
+  created_at: string;
+};
+
+type SyncRunsRow = {
+  id: number;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  window_start: string;
+  window_end: string;
+  scraped_events: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  rescheduled: number;
+  scrape_run_id: number | null;
+  error: string | null;
+};
+
+type BackfillCheckpointsRow = {
+  job: string;
+  window_start: string;
+  window_end: string;
+  status: CheckpointStatus;
+  attempts: number;
+  events_scraped: number;
+  records_inserted: number;
+  last_error: string | null;
+  updated_at: string;
+};
+
+export type Database = {
+  public: {
+    Tables: {
+      trout_stocking_events: Table<
+        StockingEventsRow,
+        'id' | 'status' | 'rescheduled_to' | 'rescheduled_date' | 'water_id' | 'county_id' | 'created_at' | 'updated_at'
+      >;
+      stocking_event_history: Table<StockingEventHistoryRow, 'id' | 'previous_status' | 'details' | 'created_at'>;
+      water_body_matches: Table<WaterBodyMatchesRow, 'id' | 'matches' | 'matched_at'>;
+      water_body_overrides: Table<WaterBodyOverridesRow, 'id' | 'created_at'>;
+      stocking_subscriptions: Table<
+        StockingSubscriptionsRow,
+        'id' | 'target' | 'water_ids' | 'county_ids' | 'species' | 'active' | 'confirmed_at' | 'created_at'
+      >;
+      alert_deliveries: Table<AlertDeliveriesRow, 'id' | 'error' | 'delivered_at'>;
+      webhook_endpoints: Table<WebhookEndpointsRow, 'id' | 'description' | 'active' | 'created_at'>;
+      webhook_deliveries: Table<
+        WebhookDeliveriesRow,
+        | 'id'
+        | 'status'
+        | 'attempts'
+        | 'response_status'
+        | 'last_error'
+        | 'next_attempt_at'
+        | 'replay_of'
+        | 'created_at'
+        | 'delivered_at'
+      >;
+      scrape_runs: Table<ScrapeRunsRow, 'id' | 'event_count' | 'anomalies' | 'report' | 'error' | 'created_at'>;
+      sync_runs: Table<
+        SyncRunsRow,
+        | 'id'
+        | 'status'
+        | 'started_at'
+        | 'finished_at'
+        | 'scraped_events'
+        | 'inserted'
+        | 'updated'
+        | 'unchanged'
+        | 'cancelled'
+        | 'rescheduled'
+        | 'scrape_run_id'
+        | 'error'
+      >;
+      backfill_checkpoints: Table<
+        BackfillCheckpointsRow,
+        'attempts' | 'events_scraped' | 'records_inserted' | 'last_error' | 'updated_at'
+      >;
+      counties: Table<{ id: string; name: string }>;
+      county_aliases: Table<{ alias: string; county_id: string }>;
+      waters: Table<{ id: string; name: string; county_id: string | null }, 'county_id'>;
+      water_aliases: Table<{ alias: string; county_id: string; water_id: string }, 'county_id'>;
+    };
+    Views: {
+      stocking_event_facets: {
+        Row: { county: string | null; species: string | null };
+        Relationships: [];
+      };
+    };
+    Functions: { [_ in never]: never };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type TableName = keyof PublicSchema['Tables'];
+export type Tables<T extends TableName> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends TableName> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends TableName> = PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,184 @@
+// RSS 2.0 and Atom feeds of recent stockings, one item per stocking day
+
+import { format, parseISO } from 'date-fns';
+import { StockingEvent } from './types';
+import { speciesLabel } from './canonical-entities';
+import { MAX_LIMIT, StockingQuery } from './stocking-query';
+import { StockingEventRepository } from './stocking-repository';
+
+export const DEFAULT_FEED_DAYS = 30;
+
+// Enough rows to fill DEFAULT_FEED_DAYS of busy spring stocking days
+const FEED_EVENT_LIMIT = 3000;
+
+export interface StockingDay {
+  date: string; // yyyy-MM-dd
+  events: StockingEvent[];
+}
+
+export interface FeedOptions {
+  title: string;
+  description: string;
+  siteUrl: string;
+  feedUrl: string;
+}
+
+/**
+ * Group events by stocking day, newest day first; water bodies are listed alphabetically
+ */
+export function groupEventsByDay(events: StockingEvent[]): StockingDay[] {
+  const days = new Map<string, StockingEvent[]>();
+
+  events.forEach((event) => {
+    const day = event.date.slice(0, 10);
+    const list = days.get(day) || [];
+    list.push(event);
+    days.set(day, list);
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, dayEvents]) => ({
+      date,
+      events: dayEvents.slice().sort((a, b) => a.waterBody.localeCompare(b.waterBody)),
+    }));
+}
+
+/**
+ * Most recent stocking days (today or earlier) of active stockings matching the query's filters
+ */
+export async function fetchRecentStockingDays(
+  repository: StockingEventRepository,
+  query: StockingQuery,
+  maxDays: number = DEFAULT_FEED_DAYS
+): Promise<StockingDay[]> {
+  const events: StockingEvent[] = [];
+  let cursor: string | undefined;
+
+  // Page back until maxDays days are complete, i.e. an older day has started, or the row limit is hit
+  do {
+    const page = await repository.query({
+      ...query,
+      endDate: query.endDate || format(new Date(), 'yyyy-MM-dd'),
+      // Cancelled and rescheduled stockings never happened on that day, so they are not announced
+      statuses: ['active'],
+      sortBy: 'date',
+      sortOrder: 'desc',
+      limit: MAX_LIMIT,
+      cursor,
+    });
+    events.push(...page.events);
+    cursor = page.nextCursor || undefined;
+  } while (cursor && events.length < FEED_EVENT_LIMIT && groupEventsByDay(events).length <= maxDays);
+
+  const days = groupEventsByDay(events);
+
+  // When paging stopped early the oldest day may be incomplete, so leave it out
+  if (cursor && days.length > 1) {
+    days.pop();
+  }
+
+  return days.slice(0, maxDays);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function dayTitle(day: StockingDay): string {
+  const label = format(parseISO(day.date), 'EEEE, MMMM d, yyyy');
+  const count = day.events.length;
+  return `${label}: ${count} ${count === 1 ? 'water' : 'waters'} stocked`;
+}
+
+function dayHtml(day: StockingDay): string {
+  const items = day.events.map((event) => {
+    const details = [event.county, speciesLabel(event.species), event.category].filter(Boolean).join(' · ');
+    return `<li><strong>${escapeXml(event.waterBody)}</strong> — ${escapeXml(details)}</li>`;
+  });
+  return `<ul>${items.join('')}</ul>`;
+}
+
+function dayLink(options: FeedOptions, day: StockingDay): string {
+  return `${options.siteUrl}#stockings-${day.date}`;
+}
+
+/**
+ * Stockings are published as all-day events; noon UTC keeps the date stable in every reader's time zone
+ */
+function dayTimestamp(day: StockingDay): Date {
+  return new Date(`${day.date}T12:00:00Z`);
+}
+
+export function buildRssFeed(days: StockingDay[], options: FeedOptions): string {
+  const items = days.map((day) => [
+    '<item>',
+    `<title>${escapeXml(dayTitle(day))}</title>`,
+    `<link>${escapeXml(dayLink(options, day))}</link>`,
+    `<guid isPermaLink="false">stockings-${day.date}</guid>`,
+    `<pubDate>${dayTimestamp(day).toUTCString()}</pubDate>`,
+    `<description>${escapeXml(dayHtml(day))}</description>`,
+    '</item>',
+  ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '<channel>',
+    `<title>${escapeXml(options.title)}</title>`,
+    `<link>${escapeXml(options.siteUrl)}</link>`,
+    `<description>${escapeXml(options.description)}</description>`,
+    `<atom:link href="${escapeXml(options.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...items,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+export function buildAtomFeed(days: StockingDay[], options: FeedOptions): string {
+  const updated = days.length > 0 ? dayTimestamp(days[0]) : new Date();
+
+  const entries = days.map((day) => [
+    '<entry>',
+    `<id>${escapeXml(`${options.siteUrl}#stockings-${day.date}`)}</id>`,
+    `<title>${escapeXml(dayTitle(day))}</title>`,
+    `<link href="${escapeXml(dayLink(options, day))}"/>`,
+    `<updated>${dayTimestamp(day).toISOString()}</updated>`,
+    `<content type="html">${escapeXml(dayHtml(day))}</content>`,
+    '</entry>',
+  ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(options.feedUrl)}</id>`,
+    `<title>${escapeXml(options.title)}</title>`,
+    `<subtitle>${escapeXml(options.description)}</subtitle>`,
+    `<link href="${escapeXml(options.siteUrl)}"/>`,
+    `<link href="${escapeXml(options.feedUrl)}" rel="self" type="application/atom+xml"/>`,
+    `<author><name>Virginia Trout Map</name></author>`,
+    `<updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
+
+/**
+ * Feed title and links for a request, mentioning any county/species filters
+ */
+export function feedOptionsFor(requestUrl: URL, query: StockingQuery): FeedOptions {
+  const filters = [...query.counties, ...query.species];
+
+  return {
+    title: filters.length > 0 ? `Virginia Trout Stockings (${filters.join(', ')})` : 'Virginia Trout Stockings',
+    description: 'Recent trout stockings from the Virginia Department of Wildlife Resources, one entry per day',
+    siteUrl: `${requestUrl.origin}/`,
+    feedUrl: requestUrl.toString(),
+  };
+}
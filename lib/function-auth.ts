@@ -0,0 +1,36 @@
+// Caller authentication for the Supabase edge functions, which write with the service role
+// Runs under Deno as well as Node, so it only uses web APIs
+
+// Header carrying EDGE_FUNCTION_SECRET, for schedulers that should not hold the service role key
+export const FUNCTION_SECRET_HEADER = 'x-function-secret';
+
+export interface FunctionCallSecrets {
+  serviceRoleKey?: string;
+  functionSecret?: string;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  if (left.length !== right.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ right[i];
+  }
+  return difference === 0;
+}
+
+/**
+ * Whether a request may invoke a privileged edge function: the service role key as bearer token, or the
+ * shared function secret in the x-function-secret header. The anon key and user tokens are rejected
+ */
+export function isAuthorizedFunctionCall(headers: Headers, secrets: FunctionCallSecrets): boolean {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  if (secrets.serviceRoleKey && bearer && safeEqual(bearer, secrets.serviceRoleKey)) {
+    return true;
+  }
+
+  const secret = headers.get(FUNCTION_SECRET_HEADER);
+  return !!secrets.functionSecret && !!secret && safeEqual(secret, secrets.functionSecret);
+}
@@ -0,0 +1,126 @@
+// RFC 5545 (iCalendar) serialization of stocking events
+
+import { createHash } from 'crypto';
+import { addDays, format, parseISO } from 'date-fns';
+import { StockingEvent } from './types';
+import { eventCountyId, speciesLabel } from './canonical-entities';
+
+const PRODID = '-//Virginia Trout Map//Stocking Schedule//EN';
+const UID_DOMAIN = 'virginia-trout-map';
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  refreshInterval?: string; // ISO 8601 duration, e.g. PT6H
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ * Splits on code points so multi-byte characters are never broken
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Stable UID from the event's identity (date, water body, county, species), not its database id,
+ * so re-imported rows keep the same UID and calendar apps update instead of duplicating
+ * The county id and species label keep UIDs unchanged across county spellings and the species array
+ */
+export function stockingEventUid(event: StockingEvent): string {
+  const identity = [
+    event.date.slice(0, 10),
+    event.waterBody.trim().toLowerCase(),
+    eventCountyId(event) || event.county.trim().toLowerCase(),
+    speciesLabel(event.species).toLowerCase(),
+  ].join('|');
+
+  return `${createHash('sha1').update(identity).digest('hex')}@${UID_DOMAIN}`;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function toVEvent(event: StockingEvent, stamp: string): string[] {
+  const day = parseISO(event.date.slice(0, 10));
+  const details = [
+    `Species: ${event.species.join(', ') || 'Unknown'}`,
+    event.category ? `Size: ${event.category}` : null,
+    event.numberOfFish ? `Number of fish: ${event.numberOfFish}` : null,
+    `County: ${event.county}`,
+  ].filter((line): line is string => line !== null);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${stockingEventUid(event)}`,
+    `DTSTAMP:${stamp}`,
+    // All-day event: DTEND is exclusive
+    `DTSTART;VALUE=DATE:${format(day, 'yyyyMMdd')}`,
+    `DTEND;VALUE=DATE:${format(addDays(day, 1), 'yyyyMMdd')}`,
+    `SUMMARY:${escapeText(`Trout stocking: ${event.waterBody}`)}`,
+    `LOCATION:${escapeText(`${event.waterBody}, ${event.county}, Virginia`)}`,
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    // Rescheduled stockings have their own event on the new date, so calendars drop both kinds
+    `STATUS:${event.status && event.status !== 'active' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Serialize events as a VCALENDAR document with CRLF line endings
+ */
+export function buildStockingCalendar(events: StockingEvent[], options: CalendarOptions): string {
+  const stamp = formatTimestamp(new Date());
+  const refresh = options.refreshInterval || 'PT6H';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+    'X-WR-TIMEZONE:America/New_York',
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...events.flatMap((event) => toVEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,233 @@
+// Registry of the Virginia DWR TroutApp map layers
+// The single description of each layer (MapServer id, GeoJSON LayerType, geometry, fields, style and
+// fallback snapshot) used by the map, the ArcGIS proxy, /api/geojson and water matching
+
+import { LayerType } from './types';
+
+export type ArcGISGeometryType = 'esriGeometryPoint' | 'esriGeometryPolyline' | 'esriGeometryPolygon';
+
+export interface LayerStyle {
+  color: string;
+  weight?: number;
+  radius?: number;
+  fillOpacity?: number;
+  opacity?: number;
+}
+
+export type LayerField =
+  | 'id'
+  | 'name'
+  | 'county'
+  | 'species'
+  | 'type'
+  | 'description'
+  | 'regulation'
+  | 'stockingDate'
+  | 'waterBody'
+  | 'acres';
+
+// Attribute names to read each field from, in order of preference
+export type FieldMapping = Partial<Record<LayerField, string[]>>;
+
+export interface LayerDefinition {
+  id: number | null; // MapServer layer id; null for layers only available as a snapshot
+  name: string;
+  layerType: LayerType | null; // the /api/geojson layer served from this layer, if any
+  geometryType: ArcGISGeometryType;
+  fields: FieldMapping;
+  style: LayerStyle;
+  snapshot: string | null; // GeoJSON under public/ used when the MapServer can't be reached
+  visibleByDefault: boolean;
+}
+
+const COMMON_FIELDS: FieldMapping = {
+  id: ['OBJECTID', 'FID', 'ID'],
+  county: ['COUNTY', 'COUNTY_NAME'],
+  type: ['TYPE', 'WATER_TYPE'],
+  description: ['DESCRIPTION', 'DESC'],
+};
+
+export const LAYERS = {
+  TROUT_STREAMS: {
+    id: 0,
+    name: 'Trout Streams',
+    layerType: 'stocked-streams',
+    geometryType: 'esriGeometryPolyline',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'WATER_NAME', 'STREAM_NAME'],
+      species: ['SPECIES', 'TROUT_SPECIES'],
+      type: ['WATER_TYPE', 'TYPE'],
+      regulation: ['REGULATION', 'REG_TYPE'],
+    },
+    style: { color: '#2563eb', weight: 3, opacity: 0.8 },
+    snapshot: '/data/stocked-streams.json',
+    visibleByDefault: true,
+  },
+  STOCKING_LOCATIONS: {
+    id: 1,
+    name: 'Stocking Locations',
+    layerType: null,
+    geometryType: 'esriGeometryPoint',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'LOCATION', 'LOCATION_NAME'],
+      species: ['SPECIES', 'TROUT_SPECIES'],
+      stockingDate: ['STOCKING_DATE', 'STOCK_DATE'],
+      waterBody: ['WATER_BODY', 'WATER_NAME', 'NAME'],
+    },
+    style: { color: '#10b981', radius: 6, fillOpacity: 0.7, opacity: 1 },
+    snapshot: null,
+    visibleByDefault: true,
+  },
+  STOCKING_EVENTS: {
+    id: 2,
+    name: 'Stocking Events',
+    layerType: null,
+    geometryType: 'esriGeometryPoint',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'WATER_NAME'],
+      species: ['SPECIES', 'TROUT_SPECIES'],
+      stockingDate: ['STOCKING_DATE', 'STOCK_DATE'],
+    },
+    style: { color: '#f59e0b', radius: 5, fillOpacity: 0.6, opacity: 0.9 },
+    snapshot: null,
+    visibleByDefault: false,
+  },
+  TROUT_REGULATIONS: {
+    id: 3,
+    name: 'Trout Regulations',
+    layerType: null,
+    geometryType: 'esriGeometryPolyline',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'WATER_NAME'],
+      regulation: ['REGULATION', 'REG_TYPE'],
+    },
+    style: { color: '#8b5cf6', weight: 2, fillOpacity: 0.3, opacity: 0.7 },
+    snapshot: null,
+    visibleByDefault: false,
+  },
+  PUBLIC_LAKES: {
+    id: 4,
+    name: 'Public Lakes',
+    layerType: 'stocked-lakes',
+    geometryType: 'esriGeometryPolygon',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'LAKE_NAME', 'WATER_NAME'],
+      species: ['SPECIES', 'FISH_SPECIES'],
+      acres: ['ACRES', 'AREA_ACRES'],
+    },
+    style: { color: '#06b6d4', weight: 2, fillOpacity: 0.4, opacity: 0.8 },
+    snapshot: '/data/stocked-lakes.json',
+    visibleByDefault: true,
+  },
+  WILDLIFE_MANAGEMENT_AREAS: {
+    id: 5,
+    name: 'Wildlife Management Areas',
+    layerType: null,
+    geometryType: 'esriGeometryPolygon',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'WMA_NAME'],
+    },
+    style: { color: '#84cc16', weight: 2, fillOpacity: 0.2, opacity: 0.6 },
+    snapshot: null,
+    visibleByDefault: false,
+  },
+  // The TroutApp service has no wild trout layer, so wild streams are only served from the snapshot
+  WILD_STREAMS: {
+    id: null,
+    name: 'Wild Trout Streams',
+    layerType: 'wild-streams',
+    geometryType: 'esriGeometryPolyline',
+    fields: {
+      ...COMMON_FIELDS,
+      name: ['NAME', 'WATER_NAME', 'STREAM_NAME'],
+      species: ['SPECIES', 'TROUT_SPECIES'],
+    },
+    style: { color: '#0f766e', weight: 3, opacity: 0.8 },
+    snapshot: '/data/wild-streams.json',
+    visibleByDefault: false,
+  },
+} satisfies Record<string, LayerDefinition>;
+
+export type MapServerLayer = LayerDefinition & { id: number };
+
+const ALL_LAYERS: LayerDefinition[] = Object.values(LAYERS);
+
+/**
+ * Layers published by the MapServer, in layer id order
+ */
+export const MAP_SERVER_LAYERS: MapServerLayer[] = ALL_LAYERS
+  .filter((layer): layer is MapServerLayer => layer.id !== null)
+  .sort((a, b) => a.id - b.id);
+
+/**
+ * Layers served by /api/geojson
+ */
+export const LAYER_TYPES: LayerType[] = ALL_LAYERS
+  .map((layer) => layer.layerType)
+  .filter((type): type is LayerType => type !== null);
+
+export function getLayerById(id: number): MapServerLayer | undefined {
+  return MAP_SERVER_LAYERS.find((layer) => layer.id === id);
+}
+
+export function getLayerForType(type: LayerType): LayerDefinition {
+  const layer = ALL_LAYERS.find((candidate) => candidate.layerType === type);
+  if (!layer) {
+    throw new Error(`No layer registered for ${type}`);
+  }
+  return layer;
+}
+
+export function isLayerType(value: unknown): value is LayerType {
+  return typeof value === 'string' && (LAYER_TYPES as string[]).includes(value);
+}
+
+/**
+ * Parse a MapServer layer id from a query or body value; null unless it names a registered layer
+ */
+export function parseLayerId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  return Number.isInteger(id) && getLayerById(id) ? id : null;
+}
+
+// Field names vary in casing and separators between layers and snapshots (NAME, Name, WaterName, WATER_NAME)
+function fieldKey(name: string): string {
+  return name.replace(/_/g, '').toLowerCase();
+}
+
+/**
+ * The attribute a layer field is read from, given the field names a feature or layer schema actually has
+ */
+export function resolveField(fieldNames: string[], layer: LayerDefinition, field: LayerField): string | undefined {
+  const keys = new Map(fieldNames.map((name) => [fieldKey(name), name]));
+
+  for (const source of layer.fields[field] || []) {
+    const name = keys.get(fieldKey(source));
+    if (name !== undefined) return name;
+  }
+
+  return undefined;
+}
+
+/**
+ * First non-empty value of a field in a feature's attributes, using the layer's field mapping
+ */
+export function readField(attributes: Record<string, unknown>, layer: LayerDefinition, field: LayerField): unknown {
+  const keys = new Map(Object.keys(attributes).map((key) => [fieldKey(key), key]));
+
+  for (const source of layer.fields[field] || []) {
+    const key = keys.get(fieldKey(source));
+    const value = key === undefined ? undefined : attributes[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,101 @@
+// Web Mercator (XYZ) tile math for viewport queries: the map asks for the tiles covering its view, so the
+// same tiles, and their cached features, come back as the user pans and zooms
+
+import type { QueryEnvelope } from './arcgis-query';
+
+export interface MapTile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+// Features are queried on a tile grid between these zooms: below the minimum a view spans too many tiles,
+// and above the maximum the cached z12 tiles are reused. Tiles outside the range are rejected, which bounds
+// how many distinct tiles the server can be asked to fetch and cache
+export const MIN_TILE_ZOOM = 6;
+export const MAX_TILE_ZOOM = 12;
+export const MAX_MAP_ZOOM = 20; // deepest map zoom a query may generalize geometry for
+
+// Latitude limit of the Web Mercator projection
+const MAX_LATITUDE = 85.0511287798;
+const TILE_SIZE = 256;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+export function tileKey({ z, x, y }: MapTile): string {
+  return `${z}/${x}/${y}`;
+}
+
+export function isValidTile(tile: MapTile): boolean {
+  const size = 2 ** tile.z;
+  return [tile.z, tile.x, tile.y].every(Number.isInteger)
+    && tile.z >= MIN_TILE_ZOOM && tile.z <= MAX_TILE_ZOOM
+    && tile.x >= 0 && tile.x < size
+    && tile.y >= 0 && tile.y < size;
+}
+
+/**
+ * Tile grid zoom used for a map zoom level
+ */
+export function tileZoomFor(mapZoom: number): number {
+  return clamp(Math.floor(mapZoom), MIN_TILE_ZOOM, MAX_TILE_ZOOM);
+}
+
+function longitudeOf(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function latitudeOf(y: number, z: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI;
+}
+
+/**
+ * WGS84 bounds of a tile
+ */
+export function tileBounds({ z, x, y }: MapTile): QueryEnvelope {
+  return {
+    xmin: longitudeOf(x, z),
+    ymin: latitudeOf(y + 1, z),
+    xmax: longitudeOf(x + 1, z),
+    ymax: latitudeOf(y, z),
+  };
+}
+
+function tileAt(longitude: number, latitude: number, z: number): { x: number; y: number } {
+  const size = 2 ** z;
+  const radians = (clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180;
+  const x = Math.floor(((longitude + 180) / 360) * size);
+  const y = Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * size);
+  return { x: clamp(x, 0, size - 1), y: clamp(y, 0, size - 1) };
+}
+
+/**
+ * Tiles at zoom z covering a WGS84 box
+ */
+export function tilesForBounds(bounds: QueryEnvelope, z: number): MapTile[] {
+  const topLeft = tileAt(clamp(bounds.xmin, -180, 180), bounds.ymax, z);
+  const bottomRight = tileAt(clamp(bounds.xmax, -180, 180), bounds.ymin, z);
+  const tiles: MapTile[] = [];
+
+  for (let x = topLeft.x; x <= bottomRight.x; x++) {
+    for (let y = topLeft.y; y <= bottomRight.y; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Geometry generalization for a zoom level: vertices closer than about a pixel are dropped
+ * (maxAllowableOffset, in degrees since queries return WGS84) and coordinates rounded to match
+ */
+export function generalizationForZoom(zoom: number): { maxAllowableOffset: number; geometryPrecision: number } {
+  const degreesPerPixel = 360 / (TILE_SIZE * 2 ** zoom);
+  return {
+    maxAllowableOffset: Number(degreesPerPixel.toPrecision(2)),
+    geometryPrecision: clamp(Math.ceil(-Math.log10(degreesPerPixel)) + 1, 0, 8),
+  };
+}
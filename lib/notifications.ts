@@ -0,0 +1,273 @@
+// Pluggable delivery channels for stocking alerts (email, webhook, web push, in-memory outbox)
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { AlertChannelKind, StockingEvent } from './types';
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export interface AlertMessage {
+  subject: string;
+  text: string;
+  events: StockingEvent[];
+  confirmUrl?: string; // set on the double opt-in message
+  unsubscribeUrl?: string;
+}
+
+export interface NotificationChannel {
+  readonly kind: AlertChannelKind;
+  /**
+   * Deliver a message to one subscription target; throws if delivery failed
+   */
+  send(target: Record<string, unknown>, message: AlertMessage): Promise<void>;
+}
+
+function requireString(target: Record<string, unknown>, key: string): string {
+  const value = target[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Subscription target is missing "${key}"`);
+  }
+  return value;
+}
+
+/**
+ * Email over SMTP (nodemailer is loaded lazily so the module stays usable without it)
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly kind = 'email' as const;
+
+  constructor(private config: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+  }) {}
+
+  async send(target: Record<string, unknown>, message: AlertMessage): Promise<void> {
+    const { createTransport } = await import('nodemailer');
+    const transport = createTransport({
+      host: this.config.host,
+      port: this.config.port,
+      secure: this.config.secure,
+      auth: this.config.user ? { user: this.config.user, pass: this.config.pass } : undefined,
+    });
+
+    await transport.sendMail({
+      from: this.config.from,
+      to: requireString(target, 'email'),
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 // this network, private, loopback, multicast and reserved
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && (b === 168 || b === 0))
+    || (a === 198 && (b === 18 || b === 19)); // benchmarking
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped addresses, dotted (::ffff:127.0.0.1) or as URL parsing normalizes them (::ffff:7f00:1)
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPrivateIPv4(dotted[1]);
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPrivateIPv4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  return lower === '::' || lower === '::1'
+    || /^f[cd]/.test(lower) // unique local
+    || /^fe[89ab]/.test(lower) // link-local
+    || lower.startsWith('ff'); // multicast
+}
+
+/**
+ * Why a subscriber-provided webhook or push endpoint URL is refused, or null if it is an https URL on a public
+ * host name. Only the URL itself is checked here; the channels also resolve the host before each delivery
+ */
+export function webhookUrlError(value: unknown, field = 'target.url'): string | null {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return `A valid ${field} is required`;
+  }
+
+  if (url.protocol !== 'https:') return `${field} must use https`;
+  if (url.username || url.password) return `${field} must not contain credentials`;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const internal = isIP(host)
+    ? isPrivateAddress(host)
+    : host === 'localhost' || !host.includes('.') || /\.(localhost|local|internal)$/.test(host);
+  if (internal) return `${field} must point at a public host`;
+
+  return null;
+}
+
+/**
+ * Refuse hosts that resolve to loopback, private or link-local addresses
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Host ${hostname} does not resolve to a public address`);
+  }
+}
+
+/**
+ * JSON POST to a subscriber-provided URL
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly kind = 'webhook' as const;
+
+  async send(target: Record<string, unknown>, message: AlertMessage): Promise<void> {
+    const url = requireString(target, 'url');
+    const urlError = webhookUrlError(url);
+    if (urlError) throw new Error(urlError);
+    await assertPublicHost(url);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        subject: message.subject,
+        text: message.text,
+        events: message.events,
+        confirmUrl: message.confirmUrl,
+        unsubscribeUrl: message.unsubscribeUrl,
+      }),
+      // A redirect could lead to an internal address
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Why a subscriber-provided push subscription is refused, or null if its endpoint passes webhookUrlError
+ */
+export function pushSubscriptionError(value: unknown): string | null {
+  const subscription = value as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } } | undefined;
+  if (typeof subscription?.keys?.p256dh !== 'string' || typeof subscription.keys.auth !== 'string') {
+    return 'target.subscription must carry keys.p256dh and keys.auth';
+  }
+  return webhookUrlError(subscription.endpoint, 'target.subscription.endpoint');
+}
+
+/**
+ * Browser push notification via the Web Push protocol (VAPID)
+ * The endpoint comes from the subscriber, so it gets the same https and public-host checks as webhook URLs;
+ * web-push sends with https.request, which does not follow redirects
+ */
+export class WebPushChannel implements NotificationChannel {
+  readonly kind = 'web-push' as const;
+
+  constructor(private config: { subject: string; publicKey: string; privateKey: string }) {}
+
+  async send(target: Record<string, unknown>, message: AlertMessage): Promise<void> {
+    const subscription = target.subscription as { endpoint?: string; keys?: { p256dh: string; auth: string } } | undefined;
+    if (!subscription?.endpoint || !subscription.keys) {
+      throw new Error('Subscription target is missing a push subscription');
+    }
+    const endpointError = pushSubscriptionError(subscription);
+    if (endpointError) throw new Error(endpointError);
+    await assertPublicHost(subscription.endpoint);
+
+    const webPush = await import('web-push');
+    await webPush.sendNotification(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify({ title: message.subject, body: message.text }),
+      {
+        vapidDetails: {
+          subject: this.config.subject,
+          publicKey: this.config.publicKey,
+          privateKey: this.config.privateKey,
+        },
+      }
+    );
+  }
+}
+
+export interface OutboxEntry {
+  kind: AlertChannelKind;
+  target: Record<string, unknown>;
+  message: AlertMessage;
+  queuedAt: string;
+}
+
+/**
+ * Records messages in memory instead of sending them; used for local development and tests
+ * It can stand in for any channel kind
+ */
+export class OutboxChannel implements NotificationChannel {
+  readonly entries: OutboxEntry[] = [];
+
+  constructor(readonly kind: AlertChannelKind = 'outbox') {}
+
+  async send(target: Record<string, unknown>, message: AlertMessage): Promise<void> {
+    this.entries.push({ kind: this.kind, target, message, queuedAt: new Date().toISOString() });
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+// Shared outbox so queued messages can be inspected across requests in development
+export const outbox = new OutboxChannel();
+
+/**
+ * Channels configured through environment variables
+ * With ALERTS_USE_OUTBOX=true every kind is routed to the in-memory outbox; otherwise the outbox is not offered
+ */
+export function createChannelsFromEnv(): Map<AlertChannelKind, NotificationChannel> {
+  const channels = new Map<AlertChannelKind, NotificationChannel>();
+
+  if (process.env.ALERTS_USE_OUTBOX === 'true') {
+    (['email', 'webhook', 'web-push', 'outbox'] as AlertChannelKind[]).forEach((kind) => channels.set(kind, outbox));
+    return channels;
+  }
+
+  channels.set('webhook', new WebhookChannel());
+
+  if (process.env.SMTP_HOST && process.env.ALERTS_EMAIL_FROM) {
+    channels.set('email', new SmtpEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.ALERTS_EMAIL_FROM,
+    }));
+  }
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && process.env.VAPID_SUBJECT) {
+    channels.set('web-push', new WebPushChannel({
+      subject: process.env.VAPID_SUBJECT,
+      publicKey: process.env.VAPID_PUBLIC_KEY,
+      privateKey: process.env.VAPID_PRIVATE_KEY,
+    }));
+  }
+
+  return channels;
+}
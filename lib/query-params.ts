@@ -0,0 +1,11 @@
+// Query-string parsing shared by the list endpoints
+
+/**
+ * ?limit= as an integer clamped to 1..max (fallback when absent), or null when it isn't an integer
+ */
+export function parseLimit(value: string | null, fallback: number, max: number): number | null {
+  if (value === null || value.trim() === '') return fallback;
+  if (!/^[+-]?\d+$/.test(value.trim())) return null;
+
+  return Math.min(Math.max(1, parseInt(value, 10)), max);
+}
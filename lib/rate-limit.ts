@@ -0,0 +1,45 @@
+// In-memory sliding-window rate limiting for API routes
+// State is per server instance, so limits are approximate when the app runs on several instances
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export class RateLimiter {
+  private hits: Map<string, number[]> = new Map();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /**
+   * Count a request for the key and report whether it is within the limit
+   * Rejected requests are not counted, so a client that backs off recovers on schedule
+   */
+  check(key: string): RateLimitResult {
+    const now = Date.now();
+    const recent = (this.hits.get(key) || []).filter((time) => now - time < this.windowMs);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + this.windowMs - now };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    this.prune(now);
+
+    return { allowed: true, remaining: this.limit - recent.length, retryAfterMs: 0 };
+  }
+
+  /**
+   * Drop keys whose hits have all expired so the map doesn't grow without bound
+   */
+  private prune(now: number) {
+    this.hits.forEach((times, key) => {
+      if (times.every((time) => now - time >= this.windowMs)) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,156 @@
+// Scraper health: per-run scrape reports, anomaly detection and the scrape_runs log
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { ScrapeAnomaly, ScrapeReport, ScrapeRun } from './types';
+
+// A run is flagged when it parses less than half the rows of the last healthy run
+export const ROW_DROP_THRESHOLD = 0.5;
+// ...or skips more than a fifth of the table's rows
+export const SKIP_RATE_THRESHOLD = 0.2;
+
+type ScrapeRunRecord = Tables<'scrape_runs'>;
+
+export function toScrapeRun(record: ScrapeRunRecord): ScrapeRun {
+  return {
+    id: record.id,
+    source: record.source,
+    healthy: record.healthy,
+    eventCount: record.event_count,
+    anomalies: record.anomalies || [],
+    report: record.report,
+    error: record.error,
+    createdAt: record.created_at,
+  };
+}
+
+function sameHeaders(a: string[], b: string[]): boolean {
+  const left = Array.from(new Set(a)).sort();
+  const right = Array.from(new Set(b)).sort();
+  return left.length === right.length && left.every((header, i) => header === right[i]);
+}
+
+/**
+ * Compare a scrape against the last healthy run from the same source
+ */
+export function detectScrapeAnomalies(
+  report: ScrapeReport,
+  eventCount: number,
+  previous: ScrapeRun | null
+): ScrapeAnomaly[] {
+  const anomalies: ScrapeAnomaly[] = [];
+
+  if (report.tableIndex === null) {
+    anomalies.push({
+      code: 'no-table',
+      message: `None of the ${report.tablesFound} tables on the page had date and water body columns`,
+    });
+  } else if (eventCount === 0) {
+    anomalies.push({ code: 'no-rows', message: 'The schedule table was found but no rows were parsed' });
+  }
+
+  if (previous && previous.eventCount > 0 && eventCount < previous.eventCount * (1 - ROW_DROP_THRESHOLD)) {
+    anomalies.push({
+      code: 'row-count-drop',
+      message: `Parsed ${eventCount} events, down from ${previous.eventCount} in run ${previous.id}`,
+    });
+  }
+
+  const previousHeaders = previous?.report?.headers || [];
+  if (previousHeaders.length > 0 && report.headers.length > 0 && !sameHeaders(previousHeaders, report.headers)) {
+    anomalies.push({
+      code: 'headers-changed',
+      message: `Table headers changed from [${previousHeaders.join(', ')}] to [${report.headers.join(', ')}]`,
+    });
+  }
+
+  if (report.rowsTotal > 0 && report.rowsSkipped / report.rowsTotal > SKIP_RATE_THRESHOLD) {
+    anomalies.push({
+      code: 'high-skip-rate',
+      message: `Skipped ${report.rowsSkipped} of ${report.rowsTotal} rows (${JSON.stringify(report.skipReasons)})`,
+    });
+  }
+
+  return anomalies;
+}
+
+export async function getLastHealthyScrapeRun(supabase: SupabaseClient<Database>, source: string): Promise<ScrapeRun | null> {
+  const { data, error } = await supabase
+    .from('scrape_runs')
+    .select('*')
+    .eq('source', source)
+    .eq('healthy', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toScrapeRun(data as ScrapeRunRecord) : null;
+}
+
+export async function listScrapeRuns(supabase: SupabaseClient<Database>, limit = 20): Promise<ScrapeRun[]> {
+  const { data, error } = await supabase
+    .from('scrape_runs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return ((data || []) as ScrapeRunRecord[]).map(toScrapeRun);
+}
+
+export type ScrapeOutcome =
+  | { report: ScrapeReport; eventCount: number }
+  | { error: string };
+
+/**
+ * Persist a scrape run, running anomaly detection for successful scrapes
+ * A scrape that threw is always recorded as unhealthy
+ */
+export async function recordScrapeRun(
+  supabase: SupabaseClient<Database>,
+  source: string,
+  outcome: ScrapeOutcome
+): Promise<ScrapeRun> {
+  let record: Omit<ScrapeRunRecord, 'id' | 'created_at'>;
+
+  if ('error' in outcome) {
+    record = {
+      source,
+      healthy: false,
+      event_count: 0,
+      anomalies: [{ code: 'scrape-failed', message: outcome.error }],
+      report: null,
+      error: outcome.error,
+    };
+  } else {
+    const previous = await getLastHealthyScrapeRun(supabase, source);
+    const anomalies = detectScrapeAnomalies(outcome.report, outcome.eventCount, previous);
+
+    record = {
+      source,
+      healthy: anomalies.length === 0,
+      event_count: outcome.eventCount,
+      anomalies,
+      report: outcome.report,
+      error: null,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('scrape_runs')
+    .insert(record)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const run = toScrapeRun(data as ScrapeRunRecord);
+  if (!run.healthy) {
+    console.warn(`Scrape run ${run.id} (${source}) is unhealthy:`, run.anomalies.map((a) => a.message));
+  }
+
+  return run;
+}
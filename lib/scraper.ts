@@ -1,9 +1,21 @@
 // Web scraper for Virginia DWR trout stocking schedule
+// Pages come from a StockingSource (lib/stocking-sources.ts); parseStockingSchedule turns one page into events
 
 import { parse } from 'node-html-parser';
-import { StockingEvent } from './types';
+import { ScheduleParseReport, ScrapeReport, ScrapeSkipReason, StockingEvent } from './types';
+import { DateWindow, DwrWebSource, StockingSource } from './stocking-sources';
 
-const STOCKING_SCHEDULE_URL = 'https://dwr.virginia.gov/fishing/trout-stocking-schedule/';
+// Known trout species in order of longest to shortest for proper matching
+const KNOWN_SPECIES = [
+  'Rainbow Trout',
+  'Brown Trout',
+  'Brook Trout',
+  'Tiger Trout',
+  'Golden Trout',
+];
+
+// Cap on sample values kept in the scrape report
+const REPORT_SAMPLE_SIZE = 20;
 
 /**
  * Parse concatenated species string to separate individual species
@@ -14,15 +26,6 @@ function parseSpeciesString(speciesText: string): string[] {
     return [];
   }
 
-  // Known trout species in order of longest to shortest for proper matching
-  const validSpecies = [
-    'Rainbow Trout',
-    'Brown Trout',
-    'Brook Trout',
-    'Tiger Trout',
-    'Golden Trout',
-  ];
-
   const parsed: string[] = [];
   let remaining = speciesText.trim();
 
@@ -40,7 +43,7 @@ function parseSpeciesString(speciesText: string): string[] {
 
   // Handle concatenated species (no delimiters)
   // Try to match each known species in the string
-  for (const species of validSpecies) {
+  for (const species of KNOWN_SPECIES) {
     const index = remaining.indexOf(species);
     if (index !== -1) {
       parsed.push(species);
@@ -115,202 +118,270 @@ function extractNumber(text: string): number | undefined {
   return undefined;
 }
 
+export interface ScrapeOptions {
+  startDate?: Date;
+  endDate?: Date;
+  source?: StockingSource; // defaults to the live DWR site
+}
+
+export interface ScrapeResult {
+  events: StockingEvent[];
+  report: ScrapeReport;
+}
+
+function addSample(samples: string[], value: string) {
+  if (samples.length < REPORT_SAMPLE_SIZE && !samples.includes(value)) {
+    samples.push(value);
+  }
+}
+
 /**
- * Fetch stocking data with date range search for maximum historical data
+ * Scrape the stocking schedule and describe how the pages were parsed
+ * Defaults to January 1, 2021 through one year ahead (future scheduled stockings)
  */
-async function fetchStockingDataWithDateRange(startDate: string, endDate: string): Promise<string> {
+export async function scrapeStockingSchedule(options: ScrapeOptions = {}): Promise<ScrapeResult> {
+  const source = options.source || new DwrWebSource();
+
   try {
-    // The form uses GET method with query parameters
-    // Date format expected by DWR: "Month+DD%2C+YYYY" (e.g., "January+1%2C+2020")
-    const url = new URL(STOCKING_SCHEDULE_URL);
-    url.searchParams.set('start_date', startDate);
-    url.searchParams.set('end_date', endDate);
-
-    console.log(`Requesting URL: ${url.toString()}`);
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Referer': STOCKING_SCHEDULE_URL,
-      },
-    });
+    const currentDate = new Date();
+    const startDate = options.startDate || new Date(2021, 0, 1); // January 1, 2021 - good historical coverage
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const endDate = options.endDate || new Date(currentDate);
+    if (!options.endDate) {
+      endDate.setFullYear(currentDate.getFullYear() + 1); // Include 1 year of future scheduled stockings
     }
 
-    return await response.text();
+    const window: DateWindow = { start: startDate, end: endDate };
+    const pages = await source.fetchPages(window);
+    const parsed = pages.map((page) => parseStockingSchedule(page.html));
+
+    // Sources may return whole pages; keep only stockings inside the requested window
+    const events = parsed
+      .flatMap((result) => result.events)
+      .filter((event) => isInWindow(event, window));
+
+    console.log(`Successfully scraped ${events.length} stocking events from ${pages.length} ${source.name} page(s)`);
+
+    return {
+      events,
+      report: {
+        source: source.name,
+        pages: pages.map((page, i) => ({ url: page.url, fetchMode: page.fetchMode, rowsParsed: parsed[i].report.rowsParsed })),
+        ...mergeParseReports(parsed.map((result) => result.report)),
+      },
+    };
+
   } catch (error) {
-    console.error('Error fetching with date range:', error);
-    throw error;
+    console.error('Error scraping stocking data:', error);
+    throw new Error(`Failed to scrape stocking data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Convert Date to DWR URL format: "Month+DD%2C+YYYY"
+ * Whether an event's day falls inside the window (both ends inclusive, compared by local calendar day)
  */
-function formatDateForURL(date: Date): string {
-  const months = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-  
-  const month = months[date.getMonth()];
-  const day = date.getDate();
-  const year = date.getFullYear();
-  
-  // Format: "Month+DD%2C+YYYY" (e.g., "January+1%2C+2020")
-  // Note: %2C is the URL-encoded comma, but we'll let URLSearchParams handle encoding
-  return `${month} ${day}, ${year}`;
+function isInWindow(event: StockingEvent, window: DateWindow): boolean {
+  const day = new Date(event.date);
+  const start = new Date(window.start.getFullYear(), window.start.getMonth(), window.start.getDate());
+  const end = new Date(window.end.getFullYear(), window.end.getMonth(), window.end.getDate() + 1);
+  return day >= start && day < end;
 }
 
 /**
- * Scrape stocking schedule data with date range search for maximum historical data
+ * Combine per-page parse reports: counts are summed, the layout comes from the first page with a schedule table
  */
-export async function scrapeStockingData(): Promise<StockingEvent[]> {
-  try {
-    // Get maximum historical and future data
-    // Start from January 1, 2021 (4+ years of history) and extend to include future scheduled stockings
-    const currentDate = new Date();
-    const startDate = new Date(2021, 0, 1); // January 1, 2021 - good historical coverage
-    
-    const endDate = new Date(currentDate);
-    endDate.setFullYear(currentDate.getFullYear() + 1); // Include 1 year of future scheduled stockings
-    
-    const startDateStr = formatDateForURL(startDate);
-    const endDateStr = formatDateForURL(endDate);
+function mergeParseReports(reports: ScheduleParseReport[]): ScheduleParseReport {
+  const layout = reports.find((report) => report.tableIndex !== null);
+  const merged: ScheduleParseReport = {
+    tablesFound: 0,
+    tableIndex: layout?.tableIndex ?? null,
+    headers: layout?.headers || [],
+    columnMapping: layout?.columnMapping || {},
+    rowsTotal: 0,
+    rowsParsed: 0,
+    rowsSkipped: 0,
+    skipReasons: {},
+    unknownSpecies: [],
+    dateParseFailures: [],
+  };
 
-    console.log(`Fetching stocking data from ${startDateStr} to ${endDateStr}...`);
+  reports.forEach((report) => {
+    merged.tablesFound += report.tablesFound;
+    merged.rowsTotal += report.rowsTotal;
+    merged.rowsParsed += report.rowsParsed;
+    merged.rowsSkipped += report.rowsSkipped;
+    (Object.entries(report.skipReasons) as Array<[ScrapeSkipReason, number]>).forEach(([reason, count]) => {
+      merged.skipReasons[reason] = (merged.skipReasons[reason] || 0) + count;
+    });
+    report.unknownSpecies.forEach((species) => addSample(merged.unknownSpecies, species));
+    report.dateParseFailures.forEach((value) => addSample(merged.dateParseFailures, value));
+  });
 
-    let html: string;
-    
-    try {
-      // Try GET request with date range first (gets maximum data)
-      html = await fetchStockingDataWithDateRange(startDateStr, endDateStr);
-    } catch (error) {
-      console.log('Date range search failed, falling back to default page scrape:', error);
-      // Fallback to simple GET request
-      const response = await fetch(STOCKING_SCHEDULE_URL, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  return merged;
+}
 
-      html = await response.text();
-    }
+/**
+ * Parse a DWR schedule page into stocking events (no network access)
+ * Column positions are guessed from the header text of the first table that has date and water body columns
+ */
+export function parseStockingSchedule(html: string): { events: StockingEvent[]; report: ScheduleParseReport } {
+  const root = parse(html);
+  const events: StockingEvent[] = [];
+
+  // Strategy 1: Look for table with class containing "stocking" or "schedule"
+  const tables = root.querySelectorAll('table');
+
+  const report: ScheduleParseReport = {
+    tablesFound: tables.length,
+    tableIndex: null,
+    headers: [],
+    columnMapping: {},
+    rowsTotal: 0,
+    rowsParsed: 0,
+    rowsSkipped: 0,
+    skipReasons: {},
+    unknownSpecies: [],
+    dateParseFailures: [],
+  };
 
-    const root = parse(html);
-    const events: StockingEvent[] = [];
+  const skip = (reason: ScrapeSkipReason) => {
+    report.rowsSkipped++;
+    report.skipReasons[reason] = (report.skipReasons[reason] || 0) + 1;
+  };
+  
+  if (tables.length === 0) {
+    console.warn('No tables found on page');
+    return { events, report };
+  }
 
-    // Strategy 1: Look for table with class containing "stocking" or "schedule"
-    const tables = root.querySelectorAll('table');
+  // Try each table to find stocking data
+  for (const [tableIndex, table] of tables.entries()) {
+    const rows = table.querySelectorAll('tr');
     
-    if (tables.length === 0) {
-      console.warn('No tables found on page');
-      return [];
-    }
+    if (rows.length === 0) continue;
 
-    // Try each table to find stocking data
-    for (const table of tables) {
-      const rows = table.querySelectorAll('tr');
-      
-      if (rows.length === 0) continue;
+    // Try to identify header row
+    const headerRow = rows[0];
+    const headers = headerRow.querySelectorAll('th, td');
+    
+    if (headers.length === 0) continue;
 
-      // Try to identify header row
-      const headerRow = rows[0];
-      const headers = headerRow.querySelectorAll('th, td');
-      
-      if (headers.length === 0) continue;
+    // Map header indices (case-insensitive matching)
+    const headerTexts = headers.map(h => h.text.trim().toLowerCase());
+    
+    const indices = {
+      date: headerTexts.findIndex(h => h.includes('date') || h.includes('when')),
+      waterBody: headerTexts.findIndex(h => h.includes('water') || h.includes('location') || h.includes('stream') || h.includes('lake') || h.includes('waterbody')),
+      county: headerTexts.findIndex(h => h.includes('county')),
+      species: headerTexts.findIndex(h => h.includes('species') || h.includes('fish') || h.includes('stocked')),
+      category: headerTexts.findIndex(h => h.includes('category') || h.includes('cat')),
+      pounds: headerTexts.findIndex(h => h.includes('pound') || h.includes('lbs') || h.includes('weight')),
+      // Whole words only: a substring match on "count" would pick the County column for the fish count
+      number: headerTexts.findIndex(h => /\b(number|count|qty)s?\b/.test(h)),
+    };
+
+    // Skip if we can't find at least date and water body
+    if (indices.date === -1 || indices.waterBody === -1) {
+      continue;
+    }
 
-      // Map header indices (case-insensitive matching)
-      const headerTexts = headers.map(h => h.text.trim().toLowerCase());
+    console.log(`Found table with headers:`, headerTexts);
+    console.log(`Column indices:`, indices);
+
+    // Record this table's layout; reset counts left over from an earlier candidate table
+    report.tableIndex = tableIndex;
+    report.headers = headerTexts;
+    report.columnMapping = { ...indices };
+    report.rowsTotal = rows.length - 1;
+    report.rowsParsed = 0;
+    report.rowsSkipped = 0;
+    report.skipReasons = {};
+    report.unknownSpecies = [];
+    report.dateParseFailures = [];
+
+    // Process data rows (skip header)
+    for (let i = 1; i < rows.length; i++) {
+      const row = rows[i];
+      const cells = row.querySelectorAll('td');
       
-      const indices = {
-        date: headerTexts.findIndex(h => h.includes('date') || h.includes('when')),
-        waterBody: headerTexts.findIndex(h => h.includes('water') || h.includes('location') || h.includes('stream') || h.includes('lake') || h.includes('waterbody')),
-        county: headerTexts.findIndex(h => h.includes('county')),
-        species: headerTexts.findIndex(h => h.includes('species') || h.includes('fish') || h.includes('stocked')),
-        category: headerTexts.findIndex(h => h.includes('category') || h.includes('cat')),
-        pounds: headerTexts.findIndex(h => h.includes('pound') || h.includes('lbs') || h.includes('weight')),
-        number: headerTexts.findIndex(h => h.includes('number') || h.includes('count') || h.includes('qty')),
-      };
-
-      // Skip if we can't find at least date and water body
-      if (indices.date === -1 || indices.waterBody === -1) {
+      if (cells.length === 0) {
+        skip('no-cells');
         continue;
       }
 
-      console.log(`Found table with headers:`, headerTexts);
-      console.log(`Column indices:`, indices);
-
-      // Process data rows (skip header)
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const cells = row.querySelectorAll('td');
+      try {
+        const dateStr = cells[indices.date]?.text.trim();
+        const waterBody = cells[indices.waterBody]?.text.trim();
         
-        if (cells.length === 0) continue;
-
-        try {
-          const dateStr = cells[indices.date]?.text.trim();
-          const waterBody = cells[indices.waterBody]?.text.trim();
-          
-          if (!dateStr || !waterBody) continue;
-
-          const date = parseDate(dateStr);
-          if (!date) continue;
-
-          // Extract species - may contain multiple species separated by +, /, commas, or concatenated
-          const speciesText = indices.species !== -1 ? cells[indices.species]?.text.trim() : 'Unknown';
-          
-          // Parse species (handles both delimited and concatenated formats)
-          const speciesList = parseSpeciesString(speciesText);
-          const speciesStr = speciesList.length > 0 ? speciesList.join(' + ') : 'Unknown';
-
-          const event: StockingEvent = {
-            id: `${waterBody}-${date}-${i}`.replace(/\s+/g, '-').toLowerCase(),
-            waterBody,
-            county: indices.county !== -1 ? cells[indices.county]?.text.trim() : 'Unknown',
-            species: speciesStr,
-            date,
-          };
-
-          // Add optional fields
-          if (indices.pounds !== -1 && cells[indices.pounds]) {
-            event.pounds = extractNumber(cells[indices.pounds].text);
-          }
-          if (indices.number !== -1 && cells[indices.number]) {
-            event.numberOfFish = extractNumber(cells[indices.number].text);
-          }
-          if (indices.category !== -1 && cells[indices.category]) {
-            event.category = cells[indices.category].text.trim();
-          }
-
-          events.push(event);
-        } catch (error) {
-          console.error('Error parsing row:', error);
+        if (!dateStr) {
+          skip('missing-date');
+          continue;
+        }
+        if (!waterBody) {
+          skip('missing-water-body');
+          continue;
+        }
+
+        const date = parseDate(dateStr);
+        if (!date) {
+          skip('unparseable-date');
+          addSample(report.dateParseFailures, dateStr);
           continue;
         }
-      }
 
-      // If we found events, break (we found the right table)
-      if (events.length > 0) {
-        break;
+        // Extract species - may contain multiple species separated by +, /, commas, or concatenated
+        const speciesText = indices.species !== -1 ? cells[indices.species]?.text.trim() : '';
+        
+        // Parse species (handles both delimited and concatenated formats)
+        const speciesList = parseSpeciesString(speciesText);
+
+        speciesList
+          .filter((species) => !KNOWN_SPECIES.includes(species))
+          .forEach((species) => addSample(report.unknownSpecies, species));
+
+        const event: StockingEvent = {
+          id: `${waterBody}-${date}-${i}`.replace(/\s+/g, '-').toLowerCase(),
+          waterBody,
+          county: indices.county !== -1 ? cells[indices.county]?.text.trim() : 'Unknown',
+          species: speciesList,
+          date,
+        };
+
+        // Add optional fields
+        if (indices.pounds !== -1 && cells[indices.pounds]) {
+          event.pounds = extractNumber(cells[indices.pounds].text);
+        }
+        if (indices.number !== -1 && cells[indices.number]) {
+          event.numberOfFish = extractNumber(cells[indices.number].text);
+        }
+        if (indices.category !== -1 && cells[indices.category]) {
+          event.category = cells[indices.category].text.trim();
+        }
+
+        events.push(event);
+        report.rowsParsed++;
+      } catch (error) {
+        console.error('Error parsing row:', error);
+        skip('row-error');
+        continue;
       }
     }
 
-    console.log(`Successfully scraped ${events.length} stocking events`);
-    return events;
-
-  } catch (error) {
-    console.error('Error scraping stocking data:', error);
-    throw new Error(`Failed to scrape stocking data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // If we found events, break (we found the right table)
+    if (events.length > 0) {
+      break;
+    }
   }
+
+  return { events, report };
+}
+
+/**
+ * Scrape stocking schedule data with date range search for maximum historical data
+ */
+export async function scrapeStockingData(options: ScrapeOptions = {}): Promise<StockingEvent[]> {
+  const { events } = await scrapeStockingSchedule(options);
+  return events;
 }
 
 /**
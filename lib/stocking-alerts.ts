@@ -0,0 +1,272 @@
+// Stocking alerts: diff newly synced events against subscriptions and deliver notifications
+
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { format } from 'date-fns';
+import { AlertChannelKind, StockingEvent, StockingSubscription } from './types';
+import { AlertMessage, NotificationChannel } from './notifications';
+import { StockingEventRepository } from './stocking-repository';
+import { eventCountyId, eventWaterId, speciesLabel } from './canonical-entities';
+
+export interface AlertDeliveryResult {
+  subscriptionId: string;
+  channel: AlertChannelKind;
+  eventIds: string[];
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+export interface AlertJobSummary {
+  events: number;
+  subscriptions: number;
+  sent: number;
+  failed: number;
+  deliveries: AlertDeliveryResult[];
+}
+
+export type SubscriptionRecord = Tables<'stocking_subscriptions'>;
+
+// The token is left out: it only ever goes to the subscription target
+export function toStockingSubscription(record: SubscriptionRecord): StockingSubscription {
+  return {
+    id: record.id,
+    channel: record.channel,
+    target: record.target || {},
+    waterIds: record.water_ids || [],
+    countyIds: record.county_ids || [],
+    species: record.species || [],
+    active: record.active,
+    confirmedAt: record.confirmed_at,
+    createdAt: record.created_at,
+  };
+}
+
+/**
+ * Secret for a new subscription's confirmation and unsubscribe links
+ */
+export function generateSubscriptionToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+export function subscriptionLinks(appUrl: string, id: string, token: string) {
+  const params = new URLSearchParams({ id, token }).toString();
+  return {
+    confirmUrl: `${appUrl}/api/subscriptions/confirm?${params}`,
+    unsubscribeUrl: `${appUrl}/api/subscriptions/unsubscribe?${params}`,
+  };
+}
+
+/**
+ * Double opt-in message sent to a new subscription's target; alerts start once its link is opened
+ */
+export function buildConfirmationMessage(links: { confirmUrl: string; unsubscribeUrl: string }): AlertMessage {
+  return {
+    subject: 'Confirm your trout stocking alerts',
+    text: [
+      'Someone asked to send Virginia trout stocking alerts here.',
+      '',
+      `Confirm the subscription: ${links.confirmUrl}`,
+      '',
+      'If this was not you, ignore this message and nothing more will be sent.',
+    ].join('\n'),
+    events: [],
+    ...links,
+  };
+}
+
+/**
+ * Confirm (double opt-in) or cancel a subscription; false when the id and token don't match one
+ */
+export async function setSubscriptionState(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  token: string,
+  action: 'confirm' | 'cancel'
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('stocking_subscriptions')
+    .update(action === 'confirm' ? { confirmed_at: new Date().toISOString() } : { active: false })
+    .eq('id', id)
+    .eq('token', token)
+    .select('id');
+
+  if (error) throw error;
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Whether an event is covered by a subscription
+ * Each non-empty list must match; an empty list matches anything. Waters and counties match on canonical ids,
+ * so every spelling DWR uses for them is covered
+ */
+export function subscriptionMatchesEvent(subscription: StockingSubscription, event: StockingEvent): boolean {
+  if (subscription.waterIds.length > 0 && !subscription.waterIds.includes(eventWaterId(event))) {
+    return false;
+  }
+
+  if (subscription.countyIds.length > 0) {
+    const countyId = eventCountyId(event);
+    if (!countyId || !subscription.countyIds.includes(countyId)) {
+      return false;
+    }
+  }
+
+  if (subscription.species.length > 0) {
+    const eventSpecies = event.species.map((species) => species.toLowerCase());
+    if (!subscription.species.some((species) => eventSpecies.some((name) => name.includes(species.toLowerCase())))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * One message per subscription listing every matching stocking
+ */
+export function buildAlertMessage(events: StockingEvent[], unsubscribeUrl?: string): AlertMessage {
+  const sorted = events.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const subject = sorted.length === 1
+    ? `Trout stocking: ${sorted[0].waterBody} (${sorted[0].county})`
+    : `Trout stocking: ${sorted.length} waters you follow`;
+
+  const lines = sorted.map((event) =>
+    `- ${format(new Date(event.date.slice(0, 10) + 'T12:00:00'), 'EEE, MMM d')}: ${event.waterBody}, ${event.county} — ${speciesLabel(event.species)}`
+  );
+
+  const footer = unsubscribeUrl ? ['', `Unsubscribe: ${unsubscribeUrl}`] : [];
+
+  return {
+    subject,
+    text: ['New stockings matching your alert:', '', ...lines, ...footer].join('\n'),
+    events: sorted,
+    unsubscribeUrl,
+  };
+}
+
+/**
+ * Deliver alerts for the given events to every matching subscription
+ * Event/subscription pairs that were already delivered are skipped, so re-running is safe
+ */
+export async function deliverStockingAlerts(
+  events: StockingEvent[],
+  subscriptions: StockingSubscription[],
+  channels: Map<AlertChannelKind, NotificationChannel>,
+  alreadyDelivered: Set<string> = new Set(),
+  unsubscribeUrlFor?: (subscription: StockingSubscription) => string
+): Promise<AlertDeliveryResult[]> {
+  const results: AlertDeliveryResult[] = [];
+
+  for (const subscription of subscriptions) {
+    if (!subscription.active || !subscription.confirmedAt) continue;
+
+    const matching = events.filter((event) =>
+      !alreadyDelivered.has(`${subscription.id}:${event.id}`) && subscriptionMatchesEvent(subscription, event)
+    );
+    if (matching.length === 0) continue;
+
+    const eventIds = matching.map((event) => event.id);
+    const channel = channels.get(subscription.channel);
+
+    if (!channel) {
+      results.push({
+        subscriptionId: subscription.id,
+        channel: subscription.channel,
+        eventIds,
+        status: 'failed',
+        error: `Channel "${subscription.channel}" is not configured`,
+      });
+      continue;
+    }
+
+    try {
+      await channel.send(subscription.target, buildAlertMessage(matching, unsubscribeUrlFor?.(subscription)));
+      results.push({ subscriptionId: subscription.id, channel: subscription.channel, eventIds, status: 'sent' });
+    } catch (error) {
+      console.error(`Alert delivery failed for subscription ${subscription.id}:`, error);
+      results.push({
+        subscriptionId: subscription.id,
+        channel: subscription.channel,
+        eventIds,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Delivery failed',
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Alert job run after a sync inserts new rows into trout_stocking_events
+ * appUrl is the app's origin, for the unsubscribe link in each message
+ */
+export async function runStockingAlertJob(
+  supabase: SupabaseClient<Database>,
+  eventIds: string[],
+  channels: Map<AlertChannelKind, NotificationChannel>,
+  appUrl: string
+): Promise<AlertJobSummary> {
+  if (eventIds.length === 0) {
+    return { events: 0, subscriptions: 0, sent: 0, failed: 0, deliveries: [] };
+  }
+
+  const [events, subscriptionsResult, deliveredResult] = await Promise.all([
+    new StockingEventRepository(supabase).findByIds(eventIds, ['active']),
+    supabase.from('stocking_subscriptions').select('*').eq('active', true).not('confirmed_at', 'is', null),
+    supabase
+      .from('alert_deliveries')
+      .select('subscription_id, event_id')
+      .in('event_id', eventIds.map(Number))
+      .eq('status', 'sent'),
+  ]);
+
+  if (subscriptionsResult.error) throw subscriptionsResult.error;
+  if (deliveredResult.error) throw deliveredResult.error;
+
+  const records = (subscriptionsResult.data || []) as SubscriptionRecord[];
+  const subscriptions = records.map(toStockingSubscription);
+  const tokens = new Map(records.map((record) => [record.id, record.token]));
+  const alreadyDelivered = new Set(
+    ((deliveredResult.data || []) as Array<{ subscription_id: string; event_id: number }>)
+      .map((row) => `${row.subscription_id}:${row.event_id}`)
+  );
+
+  const deliveries = await deliverStockingAlerts(
+    events,
+    subscriptions,
+    channels,
+    alreadyDelivered,
+    (subscription) => subscriptionLinks(appUrl, subscription.id, tokens.get(subscription.id) || '').unsubscribeUrl
+  );
+
+  // One log row per subscription/event pair
+  const logRows = deliveries.flatMap((delivery) =>
+    delivery.eventIds.map((eventId) => ({
+      subscription_id: delivery.subscriptionId,
+      event_id: parseInt(eventId, 10),
+      channel: delivery.channel,
+      status: delivery.status,
+      error: delivery.error || null,
+      delivered_at: new Date().toISOString(),
+    }))
+  );
+
+  if (logRows.length > 0) {
+    const { error } = await supabase
+      .from('alert_deliveries')
+      .upsert(logRows, { onConflict: 'subscription_id,event_id' });
+
+    if (error) throw error;
+  }
+
+  return {
+    events: events.length,
+    subscriptions: subscriptions.length,
+    sent: deliveries.filter((d) => d.status === 'sent').length,
+    failed: deliveries.filter((d) => d.status === 'failed').length,
+    deliveries,
+  };
+}
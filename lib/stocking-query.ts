@@ -0,0 +1,165 @@
+// Stocking schedule query: filters, sorting and cursor pagination shared by /api/stocking-data and its clients
+// Execution lives in the stocking repository; this module stays free of server dependencies
+
+import { StockingEvent, StockingStatus } from './types';
+
+export type StockingSortKey = 'date' | 'waterBody' | 'county' | 'species';
+export type SortOrder = 'asc' | 'desc';
+
+export interface StockingQuery {
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string; // yyyy-MM-dd, inclusive
+  counties: string[];
+  species: string[];
+  waterBodies: string[]; // exact location names
+  waterIds: string[]; // canonical Water ids
+  statuses: StockingStatus[]; // empty = any status
+  search?: string; // full-text search on location
+  sortBy: StockingSortKey;
+  sortOrder: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+export interface StockingQueryResult {
+  events: StockingEvent[];
+  totalCount: number | null; // only computed for the first page
+  nextCursor: string | null;
+}
+
+export interface StockingFacets {
+  counties: string[];
+  species: string[];
+}
+
+// PostgREST returns at most 1000 rows per request and a page fetches limit + 1 rows, so larger result sets
+// have to be read page by page through nextCursor
+export const MAX_LIMIT = 999;
+export const DEFAULT_LIMIT = MAX_LIMIT;
+
+const SORT_KEYS: StockingSortKey[] = ['date', 'waterBody', 'county', 'species'];
+const STATUSES: StockingStatus[] = ['active', 'cancelled', 'rescheduled'];
+
+// Database column behind each sort key
+export const SORT_COLUMNS: Record<StockingSortKey, string> = {
+  date: 'stocking_date',
+  waterBody: 'location',
+  county: 'county',
+  species: 'species_label',
+};
+
+/**
+ * Multi-value params may be repeated (?county=A&county=B) or comma-separated;
+ * "all" means no filter. Names that may contain commas can only be repeated
+ */
+function getMultiValue(searchParams: URLSearchParams, name: string, commaSeparated = true): string[] {
+  return searchParams
+    .getAll(name)
+    .flatMap((value) => (commaSeparated ? value.split(',') : [value]))
+    .map((value) => value.trim())
+    .filter((value) => value && value !== 'all');
+}
+
+/**
+ * Parse query-string parameters into a StockingQuery
+ */
+export function parseStockingQuery(searchParams: URLSearchParams): StockingQuery {
+  const sortBy = searchParams.get('sortBy') as StockingSortKey | null;
+  const sortOrder = searchParams.get('sortOrder');
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+
+  return {
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    counties: getMultiValue(searchParams, 'county'),
+    species: getMultiValue(searchParams, 'species'),
+    waterBodies: getMultiValue(searchParams, 'waterBody', false),
+    waterIds: getMultiValue(searchParams, 'waterId'),
+    statuses: getMultiValue(searchParams, 'status')
+      .filter((status): status is StockingStatus => STATUSES.includes(status as StockingStatus)),
+    search: searchParams.get('q')?.trim() || undefined,
+    sortBy: sortBy && SORT_KEYS.includes(sortBy) ? sortBy : 'date',
+    sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+    limit: Math.min(MAX_LIMIT, Math.max(1, isNaN(limit) ? DEFAULT_LIMIT : limit)),
+    cursor: searchParams.get('cursor') || undefined,
+  };
+}
+
+/**
+ * Serialize a (partial) StockingQuery to query-string parameters
+ */
+export function toSearchParams(query: Partial<StockingQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.startDate) params.set('startDate', query.startDate);
+  if (query.endDate) params.set('endDate', query.endDate);
+  query.counties?.forEach((county) => params.append('county', county));
+  query.species?.forEach((species) => params.append('species', species));
+  query.waterBodies?.forEach((waterBody) => params.append('waterBody', waterBody));
+  query.waterIds?.forEach((waterId) => params.append('waterId', waterId));
+  query.statuses?.forEach((status) => params.append('status', status));
+  if (query.search) params.set('q', query.search);
+  if (query.sortBy) params.set('sortBy', query.sortBy);
+  if (query.sortOrder) params.set('sortOrder', query.sortOrder);
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  return params;
+}
+
+/**
+ * Every event matching a query, following nextCursor through /api/stocking-data pages
+ */
+export async function fetchAllStockingEvents(query: Partial<StockingQuery>): Promise<StockingEvent[]> {
+  const events: StockingEvent[] = [];
+  let cursor = query.cursor;
+
+  do {
+    const params = toSearchParams({ ...query, limit: MAX_LIMIT, cursor });
+    const response = await fetch(`/api/stocking-data?${params.toString()}`);
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load stocking data');
+    }
+
+    events.push(...(result.data as StockingEvent[]));
+    cursor = result.nextCursor || undefined;
+  } while (cursor);
+
+  return events;
+}
+
+interface CursorPayload {
+  v: string | number; // sort column value of the last row
+  id: number; // tie-breaker
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (payload && (typeof payload.v === 'string' || typeof payload.v === 'number') && typeof payload.id === 'number') {
+      return payload;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a prefix tsquery ("big sto" -> "big:* & sto:*") from free text
+ */
+export function toPrefixTsQuery(search: string): string | null {
+  const terms = search
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((term) => `${term}:*`);
+
+  return terms.length > 0 ? terms.join(' & ') : null;
+}
@@ -0,0 +1,180 @@
+// Reconciliation of a re-scraped window against the database
+// Stockings missing from the DWR schedule are marked cancelled, or rescheduled when the same water and
+// species appear on a new date; every status change is written to stocking_event_history
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { StockingEvent, StockingEventHistoryEntry, ScrapeRun } from './types';
+import { StockingEventRepository, stockingEventKey } from './stocking-repository';
+
+export interface ReconcileWindow {
+  start: string; // yyyy-MM-dd, inclusive
+  end: string; // yyyy-MM-dd, inclusive
+}
+
+export interface ReconcileInput {
+  window: ReconcileWindow; // the window that was scraped
+  scraped: StockingEvent[]; // everything the scrape returned for the window
+  inserted: StockingEvent[]; // rows the sync just inserted
+  scrapeRun: ScrapeRun;
+}
+
+export interface ReconcileResult {
+  created: number;
+  cancelled: number;
+  rescheduled: number;
+  restored: number;
+  skipped: string | null; // why cancellations were not checked, if they weren't
+}
+
+type HistoryRecord = Tables<'stocking_event_history'>;
+
+type NewHistoryRecord = Omit<HistoryRecord, 'id' | 'created_at'>;
+
+function toHistoryEntry(record: HistoryRecord): StockingEventHistoryEntry {
+  return {
+    id: record.id,
+    eventId: record.event_id.toString(),
+    change: record.change,
+    previousStatus: record.previous_status,
+    status: record.status,
+    details: record.details || {},
+    createdAt: record.created_at,
+  };
+}
+
+// The event key without its leading "yyyy-MM-dd|" date
+function waterSpeciesKey(event: StockingEvent): string {
+  return stockingEventKey(event).slice(11);
+}
+
+function daysBetween(a: StockingEvent, b: StockingEvent): number {
+  return Math.abs(new Date(a.date).getTime() - new Date(b.date).getTime()) / 86400000;
+}
+
+/**
+ * Why a scrape can't be trusted to say which stockings were removed, or null if it can
+ * An unhealthy scrape or the fallback page (current schedule only) would make real stockings look cancelled
+ */
+export function reconciliationSkipReason(run: ScrapeRun): string | null {
+  if (!run.healthy) {
+    return `scrape run ${run.id} is unhealthy`;
+  }
+  if (run.report?.pages.some((page) => page.fetchMode === 'fallback')) {
+    return 'the date-range search failed and only the default page was scraped';
+  }
+  return null;
+}
+
+async function recordHistory(supabase: SupabaseClient<Database>, records: NewHistoryRecord[]) {
+  if (records.length === 0) return;
+
+  const { error } = await supabase
+    .from('stocking_event_history')
+    .insert(records);
+
+  if (error) throw error;
+}
+
+export async function getStockingEventHistory(
+  supabase: SupabaseClient<Database>,
+  eventId: string
+): Promise<StockingEventHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('stocking_event_history')
+    .select('*')
+    .eq('event_id', Number(eventId))
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return ((data || []) as HistoryRecord[]).map(toHistoryEntry);
+}
+
+/**
+ * Reconcile stored events in the window with a fresh scrape of it
+ * - active events that are no longer scraped become 'rescheduled' when a just-inserted event has the same
+ *   water and species (the closest date wins), otherwise 'cancelled'
+ * - cancelled or rescheduled events that are scraped again become 'active'
+ */
+export async function reconcileStockingWindow(
+  supabase: SupabaseClient<Database>,
+  { window, scraped, inserted, scrapeRun }: ReconcileInput
+): Promise<ReconcileResult> {
+  const repository = new StockingEventRepository(supabase);
+  const history: NewHistoryRecord[] = inserted.map((event) => ({
+    event_id: Number(event.id),
+    change: 'created',
+    previous_status: null,
+    status: 'active',
+    details: { scrapeRunId: scrapeRun.id },
+  }));
+
+  const result: ReconcileResult = {
+    created: inserted.length,
+    cancelled: 0,
+    rescheduled: 0,
+    restored: 0,
+    skipped: reconciliationSkipReason(scrapeRun),
+  };
+
+  if (result.skipped) {
+    console.warn(`Skipping stocking reconciliation: ${result.skipped}`);
+    await recordHistory(supabase, history);
+    return result;
+  }
+
+  const stored = await repository.findInDateRange(window.start, window.end);
+  const scrapedKeys = new Set(scraped.map(stockingEventKey));
+  const insertedIds = new Set(inserted.map((event) => event.id));
+
+  // New stockings a removed one may have moved to, by water body and species
+  const moveTargets = new Map<string, StockingEvent[]>();
+  stored
+    .filter((event) => insertedIds.has(event.id))
+    .forEach((event) => {
+      const key = waterSpeciesKey(event);
+      moveTargets.set(key, [...(moveTargets.get(key) || []), event]);
+    });
+
+  for (const event of stored) {
+    const status = event.status || 'active';
+    const details = { scrapeRunId: scrapeRun.id, window };
+
+    if (status !== 'active' && scrapedKeys.has(stockingEventKey(event))) {
+      await repository.setStatus(event.id, 'active');
+      history.push({ event_id: Number(event.id), change: 'restored', previous_status: status, status: 'active', details });
+      result.restored++;
+      continue;
+    }
+
+    if (status !== 'active' || scrapedKeys.has(stockingEventKey(event))) {
+      continue;
+    }
+
+    const candidates = moveTargets.get(waterSpeciesKey(event)) || [];
+    const target = candidates.sort((a, b) => daysBetween(a, event) - daysBetween(b, event))[0];
+
+    if (target) {
+      // Each new stocking replaces at most one removed stocking
+      candidates.splice(candidates.indexOf(target), 1);
+      await repository.setStatus(event.id, 'rescheduled', { id: target.id, date: target.date });
+      history.push({
+        event_id: Number(event.id),
+        change: 'rescheduled',
+        previous_status: status,
+        status: 'rescheduled',
+        details: { ...details, rescheduledTo: Number(target.id), rescheduledDate: target.date.slice(0, 10) },
+      });
+      result.rescheduled++;
+    } else {
+      await repository.setStatus(event.id, 'cancelled');
+      history.push({ event_id: Number(event.id), change: 'cancelled', previous_status: status, status: 'cancelled', details });
+      result.cancelled++;
+    }
+  }
+
+  await recordHistory(supabase, history);
+
+  return result;
+}
@@ -0,0 +1,463 @@
+// Data access for trout_stocking_events: typed row schema, runtime validation and the StockingEvent transform
+// Every read and write of the table goes through here so schema drift surfaces in one place
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { StockingEvent, StockingStatus } from './types';
+import { countyIdFor, speciesLabel } from './canonical-entities';
+import {
+  MAX_LIMIT,
+  SORT_COLUMNS,
+  StockingFacets,
+  StockingQuery,
+  StockingQueryResult,
+  decodeCursor,
+  encodeCursor,
+  toPrefixTsQuery,
+} from './stocking-query';
+
+const TABLE = 'trout_stocking_events';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+// Event keys are looked up with in.(...) in the GET query string; at about 100 URL-encoded characters per key,
+// 50 keys stay well under the 8 KB URL limit common to PostgREST's proxies
+const KEY_LOOKUP_BATCH_SIZE = 50;
+
+// Canonical identity of a stocking (unique column, see stockingEventKey)
+const CONFLICT_KEY = 'event_key';
+
+// Columns a re-scrape may change for an existing stocking
+const CONTENT_COLUMNS = ['location', 'county', 'species_label', 'size', 'number_of_fish', 'water_id', 'county_id'] as const;
+
+export type StockingEventRow = Tables<'trout_stocking_events'>;
+
+// Status columns are left to their defaults on insert and changed by reconciliation
+export type NewStockingEventRow = Omit<
+  StockingEventRow,
+  'id' | 'status' | 'rescheduled_to' | 'rescheduled_date' | 'created_at' | 'updated_at'
+>;
+
+type ColumnType = 'number' | 'string' | 'string[]' | 'date';
+
+const ROW_SCHEMA: Record<keyof StockingEventRow, { type: ColumnType; nullable?: boolean }> = {
+  id: { type: 'number' },
+  event_key: { type: 'string' },
+  stocking_date: { type: 'date' },
+  location: { type: 'string' },
+  county: { type: 'string' },
+  species: { type: 'string[]' },
+  species_label: { type: 'string' },
+  size: { type: 'string', nullable: true },
+  number_of_fish: { type: 'number', nullable: true },
+  water_id: { type: 'string', nullable: true },
+  county_id: { type: 'string', nullable: true },
+  status: { type: 'string' },
+  rescheduled_to: { type: 'number', nullable: true },
+  rescheduled_date: { type: 'date', nullable: true },
+  created_at: { type: 'string' },
+  updated_at: { type: 'string' },
+};
+
+const ROW_COLUMNS = Object.keys(ROW_SCHEMA).join(', ');
+
+/**
+ * Thrown when a row read from the database does not match ROW_SCHEMA
+ */
+export class StockingRowSchemaError extends Error {
+  constructor(readonly field: string, readonly row: unknown, detail: string) {
+    super(`${TABLE} row does not match schema: "${field}" ${detail}`);
+    this.name = 'StockingRowSchemaError';
+  }
+}
+
+function matchesType(value: unknown, type: ColumnType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Validate an untyped database row against the row schema
+ */
+export function parseStockingEventRow(value: unknown): StockingEventRow {
+  if (!value || typeof value !== 'object') {
+    throw new StockingRowSchemaError('(row)', value, 'is not an object');
+  }
+
+  const record = value as Record<string, unknown>;
+
+  for (const [field, column] of Object.entries(ROW_SCHEMA)) {
+    const fieldValue = record[field];
+
+    if (fieldValue === undefined) {
+      throw new StockingRowSchemaError(field, value, 'is missing');
+    }
+    if (fieldValue === null) {
+      if (!column.nullable) throw new StockingRowSchemaError(field, value, 'is null');
+      continue;
+    }
+    if (!matchesType(fieldValue, column.type)) {
+      throw new StockingRowSchemaError(field, value, `should be a ${column.type}, got ${JSON.stringify(fieldValue)}`);
+    }
+  }
+
+  return record as unknown as StockingEventRow;
+}
+
+function normalizeKeyPart(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Canonical identity of a stocking: date, water body and species, ignoring case and spacing
+ * ("2026-04-02|big stony creek|rainbow trout"); the migration computes the same key in SQL
+ */
+export function stockingEventKey(event: Pick<StockingEvent, 'date' | 'waterBody' | 'species'>): string {
+  return [event.date.slice(0, 10), normalizeKeyPart(event.waterBody), normalizeKeyPart(speciesLabel(event.species))].join('|');
+}
+
+/**
+ * Transform a trout_stocking_events row to the StockingEvent format
+ */
+export function rowToStockingEvent(row: StockingEventRow): StockingEvent {
+  return {
+    id: row.id.toString(),
+    waterBody: row.location,
+    county: row.county,
+    species: row.species,
+    date: new Date(row.stocking_date).toISOString(),
+    numberOfFish: row.number_of_fish ?? undefined,
+    category: row.size ?? undefined,
+    waterId: row.water_id ?? undefined,
+    countyId: row.county_id ?? undefined,
+    status: row.status,
+    rescheduledTo: row.rescheduled_to !== null && row.rescheduled_date
+      ? { id: row.rescheduled_to.toString(), date: new Date(row.rescheduled_date).toISOString() }
+      : undefined,
+  };
+}
+
+/**
+ * Transform a (scraped) StockingEvent into an insertable row
+ */
+export function stockingEventToRow(event: StockingEvent): NewStockingEventRow {
+  return {
+    event_key: stockingEventKey(event),
+    stocking_date: event.date.slice(0, 10),
+    location: event.waterBody,
+    county: event.county,
+    species: event.species,
+    species_label: speciesLabel(event.species),
+    size: event.category || null,
+    number_of_fish: event.numberOfFish || null,
+    water_id: event.waterId || null,
+    county_id: event.countyId || null,
+  };
+}
+
+function toEvents(data: unknown[] | null): StockingEvent[] {
+  return (data || []).map((row) => rowToStockingEvent(parseStockingEventRow(row)));
+}
+
+/**
+ * Rows keyed on event_key; the last occurrence wins so a batch never conflicts with itself
+ */
+function dedupeRows(rows: NewStockingEventRow[]): NewStockingEventRow[] {
+  const byKey = new Map<string, NewStockingEventRow>();
+  rows.forEach((row) => byKey.set(row.event_key, row));
+  return Array.from(byKey.values());
+}
+
+function hasChanges(stored: StockingEventRow, row: NewStockingEventRow): boolean {
+  return CONTENT_COLUMNS.some((column) => stored[column] !== row[column]);
+}
+
+/**
+ * Quote a value for a PostgREST or() filter so commas and parentheses are literal
+ */
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export interface SyncResult {
+  inserted: StockingEvent[];
+  updated: StockingEvent[];
+  unchanged: number;
+}
+
+export class StockingEventRepository {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Run a StockingQuery
+   * Pages are keyset-paginated on (sort column, id) so results stay stable while rows are added; a page holds at
+   * most MAX_LIMIT events
+   */
+  async query(query: StockingQuery): Promise<StockingQueryResult> {
+    const column = SORT_COLUMNS[query.sortBy];
+    const ascending = query.sortOrder === 'asc';
+    const limit = Math.min(query.limit, MAX_LIMIT);
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+    if (query.cursor && !cursor) {
+      throw new Error('Invalid cursor');
+    }
+
+    let builder = this.supabase
+      .from(TABLE)
+      .select(ROW_COLUMNS, cursor ? undefined : { count: 'exact' })
+      .order(column, { ascending })
+      .order('id', { ascending });
+
+    if (query.startDate) {
+      builder = builder.gte('stocking_date', query.startDate);
+    }
+    if (query.endDate) {
+      builder = builder.lte('stocking_date', query.endDate);
+    }
+    if (query.counties.length > 0) {
+      // Any spelling of a county ("Augusta", "Augusta County") selects the same canonical county
+      builder = builder.in('county_id', query.counties.map((county) => countyIdFor(county) || county));
+    }
+    if (query.species.length > 0) {
+      // Stockings with any of the selected species
+      builder = builder.overlaps('species', query.species);
+    }
+    if (query.waterBodies.length > 0) {
+      builder = builder.in('location', query.waterBodies);
+    }
+    if (query.waterIds.length > 0) {
+      builder = builder.in('water_id', query.waterIds);
+    }
+    if (query.statuses.length > 0) {
+      builder = builder.in('status', query.statuses);
+    }
+
+    const tsQuery = query.search ? toPrefixTsQuery(query.search) : null;
+    if (tsQuery) {
+      builder = builder.textSearch('location_search', tsQuery, { config: 'simple' });
+    }
+
+    if (cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      const value = quoteFilterValue(cursor.v);
+      builder = builder.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error, count } = await builder.limit(limit + 1);
+
+    if (error) {
+      console.error('Supabase query error:', error);
+      throw error;
+    }
+
+    const rows = (data || []).map(parseStockingEventRow);
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      events: page.map(rowToStockingEvent),
+      totalCount: cursor ? null : count ?? 0,
+      nextCursor: rows.length > limit && last
+        ? encodeCursor({ v: last[column as keyof StockingEventRow] as string | number, id: last.id })
+        : null,
+    };
+  }
+
+  /**
+   * Distinct counties and species for filter options
+   */
+  async facets(): Promise<StockingFacets> {
+    const { data, error } = await this.supabase
+      .from('stocking_event_facets')
+      .select('county, species');
+
+    if (error) {
+      console.error('Supabase facets error:', error);
+      throw error;
+    }
+
+    const rows = (data || []) as Array<{ county: string | null; species: string | null }>;
+
+    return {
+      counties: Array.from(new Set(rows.map((r) => r.county).filter((c): c is string => !!c))).sort(),
+      species: Array.from(new Set(rows.map((r) => r.species).filter((s): s is string => !!s))).sort(),
+    };
+  }
+
+  /**
+   * Events by id, optionally only those with one of the given statuses (empty = any status)
+   */
+  async findByIds(ids: string[], statuses: StockingStatus[] = []): Promise<StockingEvent[]> {
+    if (ids.length === 0) return [];
+
+    let builder = this.supabase
+      .from(TABLE)
+      .select(ROW_COLUMNS)
+      .in('id', ids.map(Number));
+
+    if (statuses.length > 0) {
+      builder = builder.in('status', statuses);
+    }
+
+    const { data, error } = await builder;
+
+    if (error) throw error;
+
+    return toEvents(data);
+  }
+
+  /**
+   * Every event (any status) dated start..end inclusive, oldest first
+   */
+  async findInDateRange(start: string, end: string): Promise<StockingEvent[]> {
+    const events: StockingEvent[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLE)
+        .select(ROW_COLUMNS)
+        .gte('stocking_date', start)
+        .lte('stocking_date', end)
+        .order('stocking_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const page = toEvents(data);
+      events.push(...page);
+
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return events;
+  }
+
+  /**
+   * Change an event's status; rescheduledTo links a rescheduled event to its replacement
+   */
+  async setStatus(id: string, status: StockingStatus, rescheduledTo?: { id: string; date: string }): Promise<void> {
+    const { error } = await this.supabase
+      .from(TABLE)
+      .update({
+        status,
+        rescheduled_to: rescheduledTo ? Number(rescheduledTo.id) : null,
+        rescheduled_date: rescheduledTo ? rescheduledTo.date.slice(0, 10) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', Number(id));
+
+    if (error) throw error;
+  }
+
+  /**
+   * Most recent updated_at, i.e. when the last sync touched the table
+   */
+  async lastUpdated(): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from(TABLE)
+      .select('updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return (data as { updated_at: string } | null)?.updated_at || null;
+  }
+
+  async count(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from(TABLE)
+      .select('id', { count: 'exact', head: true });
+
+    if (error) throw error;
+
+    return count ?? 0;
+  }
+
+  /**
+   * Every (location, county) pair, one entry per row
+   */
+  async listLocations(): Promise<Array<{ location: string; county: string }>> {
+    const pairs: Array<{ location: string; county: string }> = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLE)
+        .select('location, county')
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const rows = (data || []) as Array<{ location: string; county: string }>;
+      pairs.push(...rows);
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Stored rows for the given event keys
+   */
+  private async findRowsByKeys(keys: string[]): Promise<Map<string, StockingEventRow>> {
+    const rows = new Map<string, StockingEventRow>();
+
+    for (let i = 0; i < keys.length; i += KEY_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await this.supabase
+        .from(TABLE)
+        .select(ROW_COLUMNS)
+        .in('event_key', keys.slice(i, i + KEY_LOOKUP_BATCH_SIZE));
+
+      if (error) throw error;
+
+      (data || []).map(parseStockingEventRow).forEach((row) => rows.set(row.event_key, row));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Idempotent sync write: insert new stockings, update those whose details changed and leave the rest alone
+   * Re-running with the same events writes nothing and reports everything as unchanged
+   */
+  async sync(events: StockingEvent[]): Promise<SyncResult> {
+    const rows = dedupeRows(events.map(stockingEventToRow));
+    const stored = await this.findRowsByKeys(rows.map((row) => row.event_key));
+    const changed = rows.filter((row) => !stored.has(row.event_key) || hasChanges(stored.get(row.event_key)!, row));
+
+    const result: SyncResult = { inserted: [], updated: [], unchanged: rows.length - changed.length };
+
+    for (let i = 0; i < changed.length; i += WRITE_BATCH_SIZE) {
+      const updatedAt = new Date().toISOString();
+      const batch = changed.slice(i, i + WRITE_BATCH_SIZE).map((row) => ({ ...row, updated_at: updatedAt }));
+
+      const { data, error } = await this.supabase
+        .from(TABLE)
+        .upsert(batch, { onConflict: CONFLICT_KEY })
+        .select(ROW_COLUMNS);
+
+      if (error) throw error;
+
+      (data || []).map(parseStockingEventRow).forEach((row) => {
+        (stored.has(row.event_key) ? result.updated : result.inserted).push(rowToStockingEvent(row));
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,25 @@
+// Virginia trout stocking season helpers
+
+import { parseISO } from 'date-fns';
+
+/**
+ * Stocking season containing a date
+ * DWR stocks from October through spring, so a season runs October 1 through September 30
+ */
+export function getStockingSeason(date: Date = new Date()): { start: Date; end: Date } {
+  const startYear = date.getMonth() >= 9 ? date.getFullYear() : date.getFullYear() - 1;
+
+  return {
+    start: new Date(startYear, 9, 1),
+    end: new Date(startYear + 1, 8, 30),
+  };
+}
+
+/**
+ * Local calendar day of a stocking event date
+ * Event dates are whole days serialized as UTC midnight, which `new Date()` would show as the previous day
+ * west of UTC
+ */
+export function stockingDay(date: string): Date {
+  return parseISO(date.slice(0, 10));
+}
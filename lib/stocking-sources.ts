@@ -0,0 +1,122 @@
+// Stocking schedule sources: where raw schedule pages come from (live DWR site or saved HTML files)
+// Sources only fetch; parsing is done by parseStockingSchedule in lib/scraper.ts
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export const STOCKING_SCHEDULE_URL = 'https://dwr.virginia.gov/fishing/trout-stocking-schedule/';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface SourcePage {
+  url: string; // page URL, or file path for local sources
+  html: string;
+  fetchMode: 'date-range' | 'fallback' | 'file';
+}
+
+export interface StockingSource {
+  readonly name: string;
+  /**
+   * Raw schedule pages covering the window; pages may also contain stockings outside it
+   */
+  fetchPages(window: DateWindow): Promise<SourcePage[]>;
+}
+
+/**
+ * Convert Date to DWR URL format: "Month+DD%2C+YYYY"
+ */
+function formatDateForURL(date: Date): string {
+  const months = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  const month = months[date.getMonth()];
+  const day = date.getDate();
+  const year = date.getFullYear();
+
+  // Format: "Month+DD%2C+YYYY" (e.g., "January+1%2C+2020")
+  // Note: %2C is the URL-encoded comma, but we'll let URLSearchParams handle encoding
+  return `${month} ${day}, ${year}`;
+}
+
+/**
+ * The live DWR schedule page, queried with its date-range search
+ * Falls back to the default page (current schedule only) if the search request fails
+ */
+export class DwrWebSource implements StockingSource {
+  readonly name = 'dwr';
+
+  constructor(private baseUrl: string = STOCKING_SCHEDULE_URL) {}
+
+  async fetchPages(window: DateWindow): Promise<SourcePage[]> {
+    const startDateStr = formatDateForURL(window.start);
+    const endDateStr = formatDateForURL(window.end);
+
+    console.log(`Fetching stocking data from ${startDateStr} to ${endDateStr}...`);
+
+    try {
+      // Try GET request with date range first (gets maximum data)
+      return [await this.fetchDateRange(startDateStr, endDateStr)];
+    } catch (error) {
+      console.log('Date range search failed, falling back to default page scrape:', error);
+      return [await this.fetchPage(this.baseUrl, 'fallback')];
+    }
+  }
+
+  /**
+   * Fetch stocking data with date range search for maximum historical data
+   */
+  private async fetchDateRange(startDate: string, endDate: string): Promise<SourcePage> {
+    // The form uses GET method with query parameters
+    // Date format expected by DWR: "Month+DD%2C+YYYY" (e.g., "January+1%2C+2020")
+    const url = new URL(this.baseUrl);
+    url.searchParams.set('start_date', startDate);
+    url.searchParams.set('end_date', endDate);
+
+    console.log(`Requesting URL: ${url.toString()}`);
+
+    return this.fetchPage(url.toString(), 'date-range');
+  }
+
+  private async fetchPage(url: string, fetchMode: SourcePage['fetchMode']): Promise<SourcePage> {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Referer': this.baseUrl,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return { url, html: await response.text(), fetchMode };
+  }
+}
+
+/**
+ * Saved schedule pages (*.html) in a local directory, e.g. an archive of past scrapes or test fixtures
+ * Every page is returned for any window; the scraper drops stockings outside the window after parsing
+ */
+export class LocalDirectorySource implements StockingSource {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async fetchPages(): Promise<SourcePage[]> {
+    const files = (await readdir(this.directory)).filter((file) => file.endsWith('.html')).sort();
+
+    return Promise.all(files.map(async (file) => {
+      const path = join(this.directory, file);
+      return { url: path, html: await readFile(path, 'utf-8'), fetchMode: 'file' as const };
+    }));
+  }
+}
@@ -0,0 +1,141 @@
+// Sync run history: the sync_runs log written by the sync-stocking-data edge function
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database';
+import { SyncRun, SyncTrigger } from './types';
+
+// A new sync is refused this soon after one succeeded
+export const SYNC_COOLDOWN_MS = 15 * 60 * 1000;
+// ...or while one is running; runs older than this are assumed to have died without finishing
+const RUNNING_SYNC_TIMEOUT_MS = 10 * 60 * 1000;
+
+type SyncRunRecord = Tables<'sync_runs'>;
+
+export function toSyncRun(record: SyncRunRecord): SyncRun {
+  return {
+    id: record.id,
+    trigger: record.trigger,
+    status: record.status,
+    startedAt: record.started_at,
+    finishedAt: record.finished_at,
+    windowStart: record.window_start,
+    windowEnd: record.window_end,
+    scrapedEvents: record.scraped_events,
+    inserted: record.inserted,
+    updated: record.updated,
+    unchanged: record.unchanged,
+    cancelled: record.cancelled,
+    rescheduled: record.rescheduled,
+    scrapeRunId: record.scrape_run_id,
+    error: record.error,
+  };
+}
+
+export function parseSyncTrigger(value: unknown): SyncTrigger {
+  return value === 'manual' ? 'manual' : 'cron';
+}
+
+/**
+ * Record the start of a sync; finish it with completeSyncRun or failSyncRun
+ */
+export async function startSyncRun(
+  supabase: SupabaseClient<Database>,
+  trigger: SyncTrigger,
+  window: { start: string; end: string }
+): Promise<SyncRun> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .insert({ trigger, window_start: window.start, window_end: window.end })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return toSyncRun(data as SyncRunRecord);
+}
+
+export interface SyncRunCounts {
+  scrapedEvents: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  rescheduled: number;
+  scrapeRunId: number | null;
+}
+
+async function finishSyncRun(supabase: SupabaseClient<Database>, id: number, update: Partial<SyncRunRecord>): Promise<SyncRun> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .update({ ...update, finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return toSyncRun(data as SyncRunRecord);
+}
+
+export function completeSyncRun(supabase: SupabaseClient<Database>, id: number, counts: SyncRunCounts): Promise<SyncRun> {
+  return finishSyncRun(supabase, id, {
+    status: 'succeeded',
+    scraped_events: counts.scrapedEvents,
+    inserted: counts.inserted,
+    updated: counts.updated,
+    unchanged: counts.unchanged,
+    cancelled: counts.cancelled,
+    rescheduled: counts.rescheduled,
+    scrape_run_id: counts.scrapeRunId,
+  });
+}
+
+export function failSyncRun(supabase: SupabaseClient<Database>, id: number, message: string): Promise<SyncRun> {
+  return finishSyncRun(supabase, id, { status: 'failed', error: message });
+}
+
+export async function listSyncRuns(supabase: SupabaseClient<Database>, limit = 20): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return ((data || []) as SyncRunRecord[]).map(toSyncRun);
+}
+
+export async function getLastSuccessfulSyncRun(supabase: SupabaseClient<Database>): Promise<SyncRun | null> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .eq('status', 'succeeded')
+    .order('finished_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toSyncRun(data as SyncRunRecord) : null;
+}
+
+/**
+ * Milliseconds until another sync may start: 0 unless a sync is running or one succeeded within cooldownMs
+ */
+export async function getSyncCooldownMs(supabase: SupabaseClient<Database>, cooldownMs = SYNC_COOLDOWN_MS): Promise<number> {
+  const now = Date.now();
+  const [latest] = await listSyncRuns(supabase, 1);
+
+  if (latest?.status === 'running') {
+    const runningFor = now - new Date(latest.startedAt).getTime();
+    if (runningFor < RUNNING_SYNC_TIMEOUT_MS) {
+      return RUNNING_SYNC_TIMEOUT_MS - runningFor;
+    }
+  }
+
+  const lastSuccessful = await getLastSuccessfulSyncRun(supabase);
+  if (!lastSuccessful?.finishedAt) return 0;
+
+  return Math.max(0, new Date(lastSuccessful.finishedAt).getTime() + cooldownMs - now);
+}
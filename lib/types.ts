@@ -22,16 +22,49 @@ export interface GeoJSONData {
   features: GeoJSONFeature[];
 }
 
+// active: on the current DWR schedule; cancelled: dropped from it; rescheduled: moved to another date
+export type StockingStatus = 'active' | 'cancelled' | 'rescheduled';
+
 export interface StockingEvent {
   id: string;
   waterBody: string;
   county: string;
-  species: string;
+  species: string[]; // canonical names, e.g. ['Rainbow Trout', 'Brown Trout']; empty when unknown
   date: string; // ISO format
   pounds?: number;
   numberOfFish?: number;
   waterType?: 'stream' | 'lake';
   category?: string; // Category A, B, DH, U, etc.
+  status?: StockingStatus; // set for events read from the database
+  rescheduledTo?: { id: string; date: string }; // replacement stocking when status is 'rescheduled'
+  waterId?: string; // canonical Water id, set at ingest
+  countyId?: string; // canonical County id; absent when the county is unknown
+}
+
+// Canonical places: spelling variants of a water or county resolve to one id
+
+export interface County {
+  id: string; // e.g. "augusta", "roanoke-city"
+  name: string; // e.g. "Augusta County", "Roanoke City"
+}
+
+export interface Water {
+  id: string; // e.g. "big-stony-creek--shenandoah"
+  name: string; // display spelling
+  countyId: string | null;
+}
+
+export type StockingChange = 'created' | 'cancelled' | 'rescheduled' | 'restored';
+
+// Audit trail entry for one stocking event
+export interface StockingEventHistoryEntry {
+  id: number;
+  eventId: string;
+  change: StockingChange;
+  previousStatus: StockingStatus | null;
+  status: StockingStatus;
+  details: Record<string, unknown>;
+  createdAt: string;
 }
 
 export interface CacheEntry<T> {
@@ -54,3 +87,117 @@ export interface LayerData {
   data: GeoJSONData;
   lastUpdated: string;
 }
+
+// Water-body matching between stocking locations and ArcGIS map features
+
+export type MatchFeatureLayer = 'stream' | 'location' | 'lake';
+
+export type MatchStatus = 'matched' | 'ambiguous' | 'unmatched' | 'override';
+
+export interface FeatureMatch {
+  layer: MatchFeatureLayer;
+  featureId: string;
+  name: string;
+  county: string;
+  position: [number, number]; // [lat, lng]
+  score: number; // 0..1 similarity
+}
+
+export interface WaterBodyMatch {
+  location: string; // raw StockingEvent.waterBody
+  county: string;
+  status: MatchStatus;
+  matches: FeatureMatch[];
+  matchedAt?: string;
+}
+
+export interface MatchOverride {
+  location: string;
+  county: string;
+  layer: MatchFeatureLayer;
+  featureId: string;
+}
+
+// Stocking alert subscriptions
+
+export type AlertChannelKind = 'email' | 'webhook' | 'web-push' | 'outbox';
+
+export interface StockingSubscription {
+  id: string;
+  channel: AlertChannelKind;
+  // email: { email }, webhook: { url }, web-push: { subscription }, outbox: {}
+  target: Record<string, unknown>;
+  waterIds: string[]; // canonical ids, as on StockingEvent
+  countyIds: string[];
+  species: string[];
+  active: boolean;
+  confirmedAt?: string | null; // alerts only go out after the target confirmed (double opt-in)
+  createdAt?: string;
+}
+
+// Scraper health
+
+export type ScrapeSkipReason = 'no-cells' | 'missing-date' | 'missing-water-body' | 'unparseable-date' | 'row-error';
+
+// How a schedule page was parsed
+export interface ScheduleParseReport {
+  tablesFound: number;
+  tableIndex: number | null; // table the events were parsed from
+  headers: string[]; // lower-cased header cells of that table
+  columnMapping: Record<string, number>; // field -> column index (-1 when not found)
+  rowsTotal: number;
+  rowsParsed: number;
+  rowsSkipped: number;
+  skipReasons: Partial<Record<ScrapeSkipReason, number>>;
+  unknownSpecies: string[];
+  dateParseFailures: string[]; // sample of unparseable date cells
+}
+
+export interface ScrapeReport extends ScheduleParseReport {
+  source: string; // StockingSource name, e.g. 'dwr' or 'local'
+  pages: Array<{
+    url: string;
+    fetchMode: 'date-range' | 'fallback' | 'file';
+    rowsParsed: number;
+  }>;
+}
+
+export interface ScrapeAnomaly {
+  code: 'no-table' | 'no-rows' | 'row-count-drop' | 'headers-changed' | 'high-skip-rate' | 'scrape-failed';
+  message: string;
+}
+
+export interface ScrapeRun {
+  id: number;
+  source: string; // e.g. 'sync'
+  healthy: boolean;
+  eventCount: number;
+  anomalies: ScrapeAnomaly[];
+  report: ScrapeReport | null;
+  error: string | null;
+  createdAt: string;
+}
+
+// Sync run history
+
+export type SyncTrigger = 'cron' | 'manual';
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface SyncRun {
+  id: number;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  windowStart: string; // yyyy-MM-dd
+  windowEnd: string;
+  scrapedEvents: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  rescheduled: number;
+  scrapeRunId: number | null;
+  error: string | null;
+}
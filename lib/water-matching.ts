@@ -0,0 +1,339 @@
+// Water-body matching engine: resolves scraped stocking locations to ArcGIS map features
+
+import { FeatureMatch, MatchFeatureLayer, MatchOverride, MatchStatus, WaterBodyMatch } from './types';
+import { TroutStream, StockingLocation, PublicLake } from './arcgis-client';
+
+// Scores at or above this are accepted automatically
+export const MATCH_THRESHOLD = 0.85;
+// Scores between this and MATCH_THRESHOLD are kept as candidates for manual review
+export const REVIEW_THRESHOLD = 0.6;
+
+// Same-name features in a different county are not discarded (streams cross county lines),
+// but they can no longer clear MATCH_THRESHOLD on their own
+const COUNTY_MISMATCH_PENALTY = 0.75;
+const COUNTY_MATCH_BONUS = 0.05;
+const MAX_MATCHES = 10;
+const MAX_REVIEW_CANDIDATES = 5;
+
+export interface MatchCandidate {
+  layer: MatchFeatureLayer;
+  featureId: string;
+  name: string;
+  county: string;
+  position: [number, number]; // [lat, lng]
+}
+
+// Abbreviations used in DWR schedule text and ArcGIS attribute names
+const ABBREVIATIONS: Record<string, string> = {
+  cr: 'creek',
+  crk: 'creek',
+  ck: 'creek',
+  r: 'river',
+  riv: 'river',
+  br: 'branch',
+  fk: 'fork',
+  frk: 'fork',
+  l: 'lake',
+  lk: 'lake',
+  res: 'reservoir',
+  resv: 'reservoir',
+  pd: 'pond',
+  mtn: 'mountain',
+  mt: 'mount',
+  n: 'north',
+  s: 'south',
+  e: 'east',
+  w: 'west',
+  nf: 'north fork',
+  sf: 'south fork',
+  st: 'saint',
+  trib: 'tributary',
+};
+
+// Words that describe a kind of water rather than a particular one
+const GENERIC_TOKENS = new Set([
+  'creek', 'river', 'run', 'branch', 'fork', 'lake', 'pond', 'reservoir',
+  'north', 'south', 'east', 'west', 'upper', 'lower', 'the', 'and', 'of',
+]);
+
+/**
+ * Lower-case a water-body name, drop punctuation and expand abbreviations ("Big Stony Cr." -> "big stony creek")
+ * Keeps every word, including parenthetical qualifiers and sections
+ */
+export function normalizeWaterTokens(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => ABBREVIATIONS[token] || token)
+    .join(' ');
+}
+
+/**
+ * Normalize a water-body name for comparison
+ * Drops parenthetical qualifiers (e.g. "(Delayed Harvest)") and section suffixes after " - "
+ */
+export function normalizeWaterName(name: string): string {
+  return normalizeWaterTokens(
+    name
+      .replace(/\([^)]*\)/g, ' ')
+      .split(/\s+[-–]\s+/)[0]
+  );
+}
+
+/**
+ * Normalize a county name so "Augusta", "Augusta County" and "AUGUSTA CO." compare equal
+ * Independent cities become "<name> city" ("City of Richmond" -> "richmond city")
+ */
+export function normalizeCountyName(county: string | null | undefined): string {
+  if (!county) return '';
+
+  let normalized = county
+    .toLowerCase()
+    .replace(/[^a-z\s]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const cityOf = normalized.match(/^city of (.+)$/);
+  if (cityOf) {
+    normalized = `${cityOf[1]} city`;
+  }
+
+  normalized = normalized.replace(/\s+(county|co)$/, '').trim();
+
+  return normalized === 'unknown' ? '' : normalized;
+}
+
+/**
+ * Key identifying a location string within a county
+ */
+export function matchKey(location: string, county: string): string {
+  return `${location.trim().toLowerCase()}|${normalizeCountyName(county)}`;
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams
+ */
+function diceCoefficient(a: string, b: string): number {
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  if (aBigrams.length === 0 || bBigrams.length === 0) {
+    return a === b ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const gram of aBigrams) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (const gram of bBigrams) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (aBigrams.length + bBigrams.length);
+}
+
+/**
+ * Similarity between two water-body names (0..1)
+ * Exact normalized matches score 1; a name whose distinctive words are all contained in the
+ * other ("Moomaw" vs "Lake Moomaw") scores at least 0.9
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeWaterName(a);
+  const right = normalizeWaterName(b);
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  let score = diceCoefficient(left, right);
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const [smaller, larger] = leftTokens.size <= rightTokens.size
+    ? [leftTokens, rightTokens]
+    : [rightTokens, leftTokens];
+  const distinctive = Array.from(smaller).filter((token) => !GENERIC_TOKENS.has(token));
+
+  if (distinctive.length > 0 && Array.from(smaller).every((token) => larger.has(token))) {
+    score = Math.max(score, 0.9);
+  }
+
+  return score;
+}
+
+function scoreCandidate(location: string, county: string, candidate: MatchCandidate): number {
+  let score = nameSimilarity(location, candidate.name);
+
+  const eventCounty = normalizeCountyName(county);
+  const featureCounty = normalizeCountyName(candidate.county);
+
+  if (eventCounty && featureCounty) {
+    score = eventCounty === featureCounty
+      ? Math.min(1, score + COUNTY_MATCH_BONUS)
+      : score * COUNTY_MISMATCH_PENALTY;
+  }
+
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Resolve a stocking location to zero or more map features
+ * Manual overrides for the location take precedence over fuzzy matching
+ */
+export function matchWaterBody(
+  location: string,
+  county: string,
+  candidates: MatchCandidate[],
+  overrides: MatchOverride[] = []
+): WaterBodyMatch {
+  const key = matchKey(location, county);
+  const applicable = overrides.filter((o) => matchKey(o.location, o.county) === key);
+
+  if (applicable.length > 0) {
+    const matches: FeatureMatch[] = [];
+    for (const candidate of candidates) {
+      const isOverridden = applicable.some((o) => o.layer === candidate.layer && o.featureId === candidate.featureId);
+      if (isOverridden && !matches.some((m) => m.layer === candidate.layer && m.featureId === candidate.featureId)) {
+        matches.push({ ...candidate, score: 1 });
+      }
+    }
+
+    return { location, county, status: 'override', matches };
+  }
+
+  // A feature can appear under more than one name; keep its best score
+  const bestByFeature = new Map<string, FeatureMatch>();
+  for (const candidate of candidates) {
+    const score = scoreCandidate(location, county, candidate);
+    if (score < REVIEW_THRESHOLD) continue;
+
+    const featureKey = `${candidate.layer}:${candidate.featureId}`;
+    const existing = bestByFeature.get(featureKey);
+    if (!existing || existing.score < score) {
+      bestByFeature.set(featureKey, { ...candidate, score });
+    }
+  }
+
+  const scored = Array.from(bestByFeature.values()).sort((a, b) => b.score - a.score);
+
+  const best = scored[0]?.score ?? 0;
+  let status: MatchStatus;
+  let matches: FeatureMatch[];
+
+  if (best >= MATCH_THRESHOLD) {
+    status = 'matched';
+    // Streams are often split into several same-named segments; keep all of them
+    matches = scored.filter((m) => m.score >= MATCH_THRESHOLD).slice(0, MAX_MATCHES);
+  } else if (best >= REVIEW_THRESHOLD) {
+    status = 'ambiguous';
+    matches = scored.slice(0, MAX_REVIEW_CANDIDATES);
+  } else {
+    status = 'unmatched';
+    matches = [];
+  }
+
+  return { location, county, status, matches };
+}
+
+/**
+ * Representative [lat, lng] for a GeoJSON-style geometry (x = longitude, y = latitude)
+ */
+export function representativePosition(geometry: {
+  type: string;
+  coordinates: number[] | number[][] | number[][][] | number[][][][];
+}): [number, number] | null {
+  const flatten = (coords: unknown): number[][] => {
+    if (!Array.isArray(coords) || coords.length === 0) return [];
+    if (typeof coords[0] === 'number') return [coords as number[]];
+    return (coords as unknown[]).flatMap(flatten);
+  };
+
+  const points = flatten(geometry.coordinates);
+  if (points.length === 0) return null;
+
+  if (geometry.type === 'Point') {
+    const [x, y] = points[0];
+    return [y, x];
+  }
+
+  if (geometry.type === 'LineString' || geometry.type === 'MultiLineString') {
+    // Use a vertex on the line rather than a centroid that may fall off a curving stream
+    const [x, y] = points[Math.floor(points.length / 2)];
+    return [y, x];
+  }
+
+  const sum = points.reduce((acc, [x, y]) => [acc[0] + x, acc[1] + y], [0, 0]);
+  return [sum[1] / points.length, sum[0] / points.length];
+}
+
+/**
+ * Build match candidates from the ArcGIS layers
+ */
+export function buildMatchCandidates(layers: {
+  streams: TroutStream[];
+  locations: StockingLocation[];
+  lakes: PublicLake[];
+}): MatchCandidate[] {
+  const candidates: MatchCandidate[] = [];
+
+  const add = (
+    layer: MatchFeatureLayer,
+    feature: { id: string; name: string; county: string; geometry: Parameters<typeof representativePosition>[0] },
+    name = feature.name
+  ) => {
+    const position = representativePosition(feature.geometry);
+    if (!position || (position[0] === 0 && position[1] === 0)) return;
+    candidates.push({ layer, featureId: feature.id, name, county: feature.county, position });
+  };
+
+  layers.streams.forEach((stream) => add('stream', stream));
+  layers.locations.forEach((location) => {
+    add('location', location);
+    // Stocking points often carry the stream name separately from the site name
+    if (location.waterBody && location.waterBody !== location.name) {
+      add('location', location, location.waterBody);
+    }
+  });
+  layers.lakes.forEach((lake) => add('lake', lake));
+
+  return candidates;
+}
+
+/**
+ * Match every distinct (location, county) pair
+ */
+export function matchAllWaterBodies(
+  pairs: Array<{ location: string; county: string }>,
+  candidates: MatchCandidate[],
+  overrides: MatchOverride[] = []
+): WaterBodyMatch[] {
+  const seen = new Set<string>();
+  const results: WaterBodyMatch[] = [];
+
+  for (const { location, county } of pairs) {
+    const key = matchKey(location, county);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    results.push(matchWaterBody(location, county, candidates, overrides));
+  }
+
+  return results;
+}
@@ -0,0 +1,247 @@
+// Outbound webhooks: signed JSON payloads for newly synced stocking events, with retry and a delivery log
+
+import { createHmac, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert, TablesUpdate } from './database';
+import { StockingEvent } from './types';
+import { StockingEventRepository } from './stocking-repository';
+
+export const WEBHOOK_EVENT_TYPE = 'stocking_events.created';
+export const MAX_ATTEMPTS = 6;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export type WebhookEndpoint = Tables<'webhook_endpoints'>;
+
+export interface WebhookPayload {
+  type: typeof WEBHOOK_EVENT_TYPE;
+  createdAt: string;
+  data: {
+    events: StockingEvent[];
+  };
+}
+
+export type WebhookDelivery = Tables<'webhook_deliveries'>;
+
+/**
+ * Random signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">"
+ * Receivers recompute the HMAC with their secret and reject stale timestamps
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m... capped at 6 hours
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export function buildStockingWebhookPayload(events: StockingEvent[]): WebhookPayload {
+  return {
+    type: WEBHOOK_EVENT_TYPE,
+    createdAt: new Date().toISOString(),
+    data: { events },
+  };
+}
+
+/**
+ * Send one delivery attempt and record the outcome on the delivery row
+ */
+export async function attemptWebhookDelivery(
+  supabase: SupabaseClient<Database>,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'virginia-trout-map-webhooks',
+        'X-Webhook-Id': String(delivery.id),
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, body, timestamp),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    if (!response.ok) {
+      lastError = `Endpoint responded with ${response.status}`;
+    }
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : 'Delivery failed';
+  }
+
+  const succeeded = lastError === null;
+  const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  const update: TablesUpdate<'webhook_deliveries'> = {
+    attempts,
+    response_status: responseStatus,
+    last_error: lastError,
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    next_attempt_at: succeeded || exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+    delivered_at: succeeded ? new Date().toISOString() : null,
+  };
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as WebhookDelivery;
+}
+
+async function loadEndpoints(supabase: SupabaseClient<Database>, ids?: string[]): Promise<Map<string, WebhookEndpoint>> {
+  let query = supabase.from('webhook_endpoints').select('*');
+  query = ids ? query.in('id', ids) : query.eq('active', true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return new Map(((data || []) as WebhookEndpoint[]).map((endpoint) => [endpoint.id, endpoint]));
+}
+
+/**
+ * Queue a delivery of the given events to every active endpoint and make the first attempt
+ */
+export async function dispatchStockingWebhooks(
+  supabase: SupabaseClient<Database>,
+  eventIds: string[]
+): Promise<WebhookDelivery[]> {
+  if (eventIds.length === 0) return [];
+
+  // Only stockings still on the schedule are announced; one cancelled before the hook ran is dropped
+  const events = await new StockingEventRepository(supabase).findByIds(eventIds, ['active']);
+  const endpoints = await loadEndpoints(supabase);
+  if (events.length === 0 || endpoints.size === 0) return [];
+
+  const payload = buildStockingWebhookPayload(events);
+
+  const { data: queued, error } = await supabase
+    .from('webhook_deliveries')
+    .insert(Array.from(endpoints.keys()).map((endpointId): TablesInsert<'webhook_deliveries'> => ({
+      endpoint_id: endpointId,
+      event_type: WEBHOOK_EVENT_TYPE,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    })))
+    .select();
+
+  if (error) throw error;
+
+  return Promise.all(
+    ((queued || []) as WebhookDelivery[]).map((delivery) =>
+      attemptWebhookDelivery(supabase, delivery, endpoints.get(delivery.endpoint_id)!)
+    )
+  );
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed (run on a schedule)
+ */
+export async function retryDueWebhookDeliveries(supabase: SupabaseClient<Database>, limit = 50): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const due = (data || []) as WebhookDelivery[];
+  if (due.length === 0) return [];
+
+  const endpoints = await loadEndpoints(supabase, Array.from(new Set(due.map((d) => d.endpoint_id))));
+  const results: WebhookDelivery[] = [];
+
+  // Deliveries to deactivated or deleted endpoints are closed as failed; left pending they would fill every
+  // batch and starve the active endpoints
+  const orphaned = due.filter((delivery) => !endpoints.get(delivery.endpoint_id)?.active);
+  if (orphaned.length > 0) {
+    const { data: closed, error: closeError } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', last_error: 'Endpoint is no longer active', next_attempt_at: null })
+      .in('id', orphaned.map((delivery) => delivery.id))
+      .select();
+
+    if (closeError) throw closeError;
+    results.push(...((closed || []) as WebhookDelivery[]));
+  }
+
+  for (const delivery of due) {
+    const endpoint = endpoints.get(delivery.endpoint_id);
+    if (!endpoint?.active) continue;
+    results.push(await attemptWebhookDelivery(supabase, delivery, endpoint));
+  }
+
+  return results;
+}
+
+/**
+ * Re-send a logged delivery's payload as a new delivery, regardless of the original outcome
+ */
+export async function replayWebhookDelivery(supabase: SupabaseClient<Database>, deliveryId: number): Promise<WebhookDelivery | null> {
+  const { data: original, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!original) return null;
+
+  const source = original as WebhookDelivery;
+  const endpoints = await loadEndpoints(supabase, [source.endpoint_id]);
+  const endpoint = endpoints.get(source.endpoint_id);
+  if (!endpoint) return null;
+
+  const { data: replay, error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: source.endpoint_id,
+      event_type: source.event_type,
+      payload: source.payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      replay_of: source.id,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  return attemptWebhookDelivery(supabase, replay as WebhookDelivery, endpoint);
+}
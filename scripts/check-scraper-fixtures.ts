@@ -0,0 +1,142 @@
+// Offline regression check for the DWR schedule parser
+// Parses every saved page in scripts/fixtures/dwr-schedule and compares the result with its .expected.json
+// Run `pnpm test:scraper`, or `pnpm test:scraper --update` to re-record the expected output after a deliberate change
+// `pnpm test:scraper --record <name> --from <yyyy-MM-dd> --to <yyyy-MM-dd>` saves the live DWR page for that
+// window as a new fixture, with its expected output
+
+// Dates on the DWR page have no time zone; pin it so expected ISO timestamps match on every machine
+process.env.TZ = 'America/New_York';
+
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { parseISO } from 'date-fns';
+import { parseStockingSchedule } from '../lib/scraper';
+import { DwrWebSource } from '../lib/stocking-sources';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'dwr-schedule');
+const update = process.argv.includes('--update');
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function parseQuietly(html: string) {
+  // The parser logs the header mapping it picks; keep the check output readable
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return parseStockingSchedule(html);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+/**
+ * Path and values of the first difference between two JSON values
+ */
+function firstDifference(expected: unknown, actual: unknown, path = '$'): string | null {
+  if (isDeepStrictEqual(expected, actual)) return null;
+
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const difference = firstDifference(
+        (expected as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        `${path}.${key}`
+      );
+      if (difference) return difference;
+    }
+  }
+
+  return `${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+function checkFixtures(): boolean {
+  const fixtures = readdirSync(FIXTURES_DIR).filter((file) => file.endsWith('.html')).sort();
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const expectedPath = join(FIXTURES_DIR, fixture.replace(/\.html$/, '.expected.json'));
+    // Round-trip through JSON so undefined optional fields compare like the stored file
+    const actual = JSON.parse(JSON.stringify(parseQuietly(readFileSync(join(FIXTURES_DIR, fixture), 'utf-8'))));
+
+    if (update) {
+      writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + '\n');
+      console.log(`updated  ${fixture}`);
+      continue;
+    }
+
+    let expected: unknown;
+    try {
+      expected = JSON.parse(readFileSync(expectedPath, 'utf-8'));
+    } catch {
+      console.error(`missing  ${fixture}: no expected output (run with --update to record it)`);
+      failures++;
+      continue;
+    }
+
+    const difference = firstDifference(expected, actual);
+    if (!difference) {
+      console.log(`ok       ${fixture} (${actual.events.length} events)`);
+    } else {
+      console.error(`FAILED   ${fixture}`);
+      console.error(`  ${difference}`);
+      failures++;
+    }
+  }
+
+  console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures passed`);
+  return failures === 0;
+}
+
+/**
+ * Save the live schedule page for a search window as <name>.html, with its parsed output as <name>.expected.json
+ */
+async function recordFixture(name: string, from: string, to: string): Promise<void> {
+  const { log } = console;
+  console.log = () => {};
+  let pages;
+  try {
+    pages = await new DwrWebSource().fetchPages({ start: parseISO(from), end: parseISO(to) });
+  } finally {
+    console.log = log;
+  }
+
+  // The source falls back to the default page when the search fails; that page is not the requested window
+  const [page] = pages;
+  if (page.fetchMode !== 'date-range') {
+    throw new Error('The date-range search failed, so the page for that window could not be recorded');
+  }
+
+  const parsed = JSON.parse(JSON.stringify(parseQuietly(page.html)));
+  writeFileSync(join(FIXTURES_DIR, `${name}.html`), page.html);
+  writeFileSync(join(FIXTURES_DIR, `${name}.expected.json`), JSON.stringify(parsed, null, 2) + '\n');
+  console.log(`recorded ${name}.html from ${page.url} (${parsed.events.length} events)`);
+}
+
+const recordName = getArg('--record');
+
+if (recordName) {
+  const from = getArg('--from');
+  const to = getArg('--to');
+
+  if (!from || !to) {
+    console.error('--record needs --from <yyyy-MM-dd> and --to <yyyy-MM-dd>');
+    process.exit(1);
+  }
+
+  recordFixture(recordName, from, to).then(
+    () => process.exit(0),
+    (error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+} else {
+  process.exit(checkFixtures() ? 0 : 1);
+}
@@ -0,0 +1,163 @@
+// Offline check for StockingEventRepository.query pagination against PostgREST's 1000-row response cap
+// Runs the repository over an in-memory table through a minimal stand-in for the Supabase query builder
+// Run `pnpm test:stocking-query`
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../lib/database';
+import { MAX_LIMIT, StockingQuery, parseStockingQuery } from '../lib/stocking-query';
+import { StockingEventRow, StockingEventRepository } from '../lib/stocking-repository';
+
+// PostgREST's default max-rows: a response never holds more, whatever limit was asked for
+const POSTGREST_MAX_ROWS = 1000;
+const TABLE_SIZE = 2500;
+
+type Row = Record<string, unknown>;
+
+function makeRows(count: number): StockingEventRow[] {
+  return Array.from({ length: count }, (_, i) => {
+    // A handful of rows per day so the (date, id) keyset has ties to break
+    const day = new Date(Date.UTC(2026, 0, 1) + Math.floor(i / 7) * 86400000).toISOString().slice(0, 10);
+    return {
+      id: i + 1,
+      event_key: `${day}|water ${i}|rainbow trout`,
+      stocking_date: day,
+      location: `Water ${i}`,
+      county: 'Augusta',
+      species: ['Rainbow Trout'],
+      species_label: 'Rainbow Trout',
+      size: null,
+      number_of_fish: null,
+      water_id: null,
+      county_id: 'augusta',
+      status: 'active',
+      rescheduled_to: null,
+      rescheduled_date: null,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+    };
+  });
+}
+
+function compare(a: unknown, b: unknown): number {
+  return a === b ? 0 : (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+function unquote(value: string): string | number {
+  if (value.startsWith('"')) return JSON.parse(value);
+  return Number(value);
+}
+
+/**
+ * Just enough of the PostgREST builder for query(): order, limit, the keyset or() filter and an exact count
+ */
+class FakeQueryBuilder implements PromiseLike<{ data: Row[]; error: null; count: number }> {
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private filters: Array<(row: Row) => boolean> = [];
+  private rowLimit = Infinity;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  order(column: string, { ascending }: { ascending: boolean }) {
+    this.orders.push({ column, ascending });
+    return this;
+  }
+
+  // col.op.value,and(col.eq.value,id.op.id) as built by the repository
+  or(filter: string) {
+    const match = filter.match(/^(\w+)\.(gt|lt)\.(.+),and\(\1\.eq\.(.+),id\.\2\.(\d+)\)$/);
+    if (!match) throw new Error(`Unsupported or() filter: ${filter}`);
+
+    const [, column, op, value, , id] = match;
+    const sign = op === 'gt' ? 1 : -1;
+    const pivot = unquote(value);
+    this.filters.push((row) => {
+      const order = compare(row[column], pivot);
+      return order === sign || (order === 0 && compare(row.id, Number(id)) === sign);
+    });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  then<T1, T2>(
+    onfulfilled?: ((value: { data: Row[]; error: null; count: number }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    const matching = this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    const sorted = matching.slice().sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+
+    const data = sorted.slice(0, Math.min(this.rowLimit, POSTGREST_MAX_ROWS));
+    return Promise.resolve({ data, error: null, count: matching.length }).then(onfulfilled, onrejected);
+  }
+}
+
+function fakeClient(rows: Row[]): SupabaseClient<Database> {
+  return { from: () => new FakeQueryBuilder(rows) } as unknown as SupabaseClient<Database>;
+}
+
+function check(name: string, condition: boolean, detail: string): boolean {
+  console.log(`${condition ? 'ok      ' : 'FAILED  '} ${name}${condition ? '' : `: ${detail}`}`);
+  return condition;
+}
+
+async function run(): Promise<boolean> {
+  const rows = makeRows(TABLE_SIZE);
+  const repository = new StockingEventRepository(fakeClient(rows));
+  const results: boolean[] = [];
+
+  // More than PostgREST will return in one response
+  const query: StockingQuery = parseStockingQuery(new URLSearchParams({ limit: '5000', sortOrder: 'asc' }));
+  results.push(check('limit above 1000 is capped', query.limit === MAX_LIMIT, `limit is ${query.limit}`));
+
+  const first = await repository.query({ ...query, limit: 1500 });
+  results.push(check(
+    'first page of an oversized request',
+    first.events.length === MAX_LIMIT && first.nextCursor !== null && first.totalCount === TABLE_SIZE,
+    `${first.events.length} events, nextCursor ${first.nextCursor}, totalCount ${first.totalCount}`
+  ));
+
+  for (const sortOrder of ['asc', 'desc'] as const) {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await repository.query({ ...query, sortOrder, cursor });
+      ids.push(...page.events.map((event) => event.id));
+      cursor = page.nextCursor || undefined;
+      pages++;
+    } while (cursor && pages <= TABLE_SIZE);
+
+    const unique = new Set(ids);
+    results.push(check(
+      `paging reads all ${TABLE_SIZE} rows (${sortOrder})`,
+      ids.length === TABLE_SIZE && unique.size === TABLE_SIZE && pages === Math.ceil(TABLE_SIZE / MAX_LIMIT),
+      `${ids.length} rows (${unique.size} unique) in ${pages} pages`
+    ));
+  }
+
+  const passed = results.filter(Boolean).length;
+  console.log(`\n${passed}/${results.length} checks passed`);
+  return passed === results.length;
+}
+
+run().then(
+  (ok) => process.exit(ok ? 0 : 1),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,34 @@
+-- Links scraped stocking locations (trout_stocking_events.location + county) to ArcGIS map features
+
+CREATE TABLE IF NOT EXISTS water_body_matches (
+  id BIGSERIAL PRIMARY KEY,
+  location TEXT NOT NULL,
+  county TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('matched', 'ambiguous', 'unmatched', 'override')),
+  -- Array of { layer, featureId, name, county, position: [lat, lng], score }
+  matches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  matched_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_water_body_match UNIQUE (location, county)
+);
+
+CREATE INDEX IF NOT EXISTS idx_water_body_matches_status ON water_body_matches (status);
+
+-- Manual corrections: pin a location to specific map features
+CREATE TABLE IF NOT EXISTS water_body_overrides (
+  id BIGSERIAL PRIMARY KEY,
+  location TEXT NOT NULL,
+  county TEXT NOT NULL,
+  layer TEXT NOT NULL CHECK (layer IN ('stream', 'location', 'lake')),
+  feature_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_water_body_override UNIQUE (location, county, layer, feature_id)
+);
+
+ALTER TABLE water_body_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE water_body_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON water_body_matches FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON water_body_overrides FOR SELECT USING (true);
+-- Writes go through the admin-only /api/water-matches handlers with the service role
+CREATE POLICY "Service role match writes" ON water_body_matches FOR ALL TO service_role USING (true) WITH CHECK (true);
+CREATE POLICY "Service role override writes" ON water_body_overrides FOR ALL TO service_role USING (true) WITH CHECK (true);
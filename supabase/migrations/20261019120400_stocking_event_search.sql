@@ -0,0 +1,21 @@
+-- Server-side filtering support for /api/stocking-data
+
+-- Full-text search on location (queried with prefix terms, e.g. 'big:* & sto:*')
+ALTER TABLE trout_stocking_events
+  ADD COLUMN IF NOT EXISTS location_search TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(location, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_location_search
+  ON trout_stocking_events USING GIN (location_search);
+
+-- Keyset pagination orders by (sort column, id)
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_date_id ON trout_stocking_events (stocking_date, id);
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_location_id ON trout_stocking_events (location, id);
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_county_id ON trout_stocking_events (county, id);
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_species_id ON trout_stocking_events (species, id);
+
+-- Filter options for the schedule UI
+CREATE OR REPLACE VIEW stocking_event_facets AS
+  SELECT DISTINCT county, species FROM trout_stocking_events;
+
+GRANT SELECT ON stocking_event_facets TO anon, authenticated;
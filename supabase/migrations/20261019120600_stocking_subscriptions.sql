@@ -0,0 +1,36 @@
+-- Stocking alert subscriptions and their delivery log
+-- Both tables hold contact details, so only the service role (server-side jobs) can access them
+
+CREATE TABLE IF NOT EXISTS stocking_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook', 'web-push', 'outbox')),
+  -- email: { email }, webhook: { url }, web-push: { subscription }, outbox: {}
+  target JSONB NOT NULL DEFAULT '{}'::jsonb,
+  water_bodies TEXT[] NOT NULL DEFAULT '{}',
+  counties TEXT[] NOT NULL DEFAULT '{}',
+  species TEXT[] NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Secret only sent to the target: confirming it (double opt-in) enables alerts, and it is needed to unsubscribe
+  token TEXT NOT NULL,
+  confirmed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocking_subscriptions_active ON stocking_subscriptions (active) WHERE confirmed_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES stocking_subscriptions (id) ON DELETE CASCADE,
+  event_id BIGINT NOT NULL REFERENCES trout_stocking_events (id) ON DELETE CASCADE,
+  channel TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  delivered_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Re-running the alert job never notifies a subscriber twice about the same stocking
+  CONSTRAINT unique_alert_delivery UNIQUE (subscription_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_event ON alert_deliveries (event_id);
+
+ALTER TABLE stocking_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,19 @@
+-- Scraper health log: one row per scrape with its parse report and detected anomalies
+-- Reports expose scraper internals, so only the service role can read them (via the admin API)
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id BIGSERIAL PRIMARY KEY,
+  -- Which job scraped: 'sync', 'migration', ...
+  source TEXT NOT NULL,
+  healthy BOOLEAN NOT NULL,
+  event_count INTEGER NOT NULL DEFAULT 0,
+  anomalies JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- ScrapeReport: tables found, header mapping, rows parsed/skipped, unknown species, date failures
+  report JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_source_created ON scrape_runs (source, created_at DESC);
+
+ALTER TABLE scrape_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,17 @@
+-- Checkpoints for the chunked historical backfill: one row per job and month window
+-- A backfill skips windows whose checkpoint is 'completed', so interrupted runs resume
+
+CREATE TABLE IF NOT EXISTS backfill_checkpoints (
+  job TEXT NOT NULL,
+  window_start DATE NOT NULL,
+  window_end DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  events_scraped INTEGER NOT NULL DEFAULT 0,
+  records_inserted INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (job, window_start)
+);
+
+ALTER TABLE backfill_checkpoints ENABLE ROW LEVEL SECURITY;
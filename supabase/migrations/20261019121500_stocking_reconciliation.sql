@@ -0,0 +1,29 @@
+-- Reconciliation of re-scraped windows: stockings that disappear from the DWR schedule are
+-- marked cancelled, or rescheduled when the same water and species show up on another date
+
+ALTER TABLE trout_stocking_events
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'cancelled', 'rescheduled')),
+  ADD COLUMN IF NOT EXISTS rescheduled_to BIGINT REFERENCES trout_stocking_events(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rescheduled_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_status_date ON trout_stocking_events (status, stocking_date);
+
+-- Audit trail: one row per status change of an event
+CREATE TABLE IF NOT EXISTS stocking_event_history (
+  id BIGSERIAL PRIMARY KEY,
+  event_id BIGINT NOT NULL REFERENCES trout_stocking_events(id) ON DELETE CASCADE,
+  change TEXT NOT NULL CHECK (change IN ('created', 'cancelled', 'rescheduled', 'restored')),
+  previous_status TEXT,
+  status TEXT NOT NULL,
+  -- e.g. { "rescheduledTo": 123, "rescheduledDate": "2026-04-02", "window": { ... } }
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocking_event_history_event ON stocking_event_history (event_id, created_at);
+
+ALTER TABLE stocking_event_history ENABLE ROW LEVEL SECURITY;
+
+-- History mirrors public schedule data, so it is readable like the events themselves
+CREATE POLICY "Public read access" ON stocking_event_history FOR SELECT USING (true);
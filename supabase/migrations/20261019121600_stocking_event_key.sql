@@ -0,0 +1,58 @@
+-- Canonical stocking identity for idempotent sync upserts: "<date>|<water body>|<species>",
+-- lower-cased with whitespace collapsed (same rules as stockingEventKey in lib/stocking-repository.ts)
+
+ALTER TABLE trout_stocking_events ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+UPDATE trout_stocking_events
+SET event_key = stocking_date::text
+  || '|' || lower(regexp_replace(btrim(location), '\s+', ' ', 'g'))
+  || '|' || lower(regexp_replace(btrim(species), '\s+', ' ', 'g'))
+WHERE event_key IS NULL;
+
+-- Rows that only differed in case or spacing are the same stocking; the oldest survives
+CREATE TEMP TABLE event_key_duplicates AS
+SELECT id AS duplicate_id, original_id
+FROM (
+  SELECT id, min(id) OVER (PARTITION BY event_key) AS original_id FROM trout_stocking_events
+) AS keyed
+WHERE id <> original_id;
+
+-- Move what refers to a duplicate onto the surviving row, so deleting the duplicate cascades to nothing
+UPDATE stocking_event_history AS history
+SET event_id = duplicates.original_id
+FROM event_key_duplicates AS duplicates
+WHERE history.event_id = duplicates.duplicate_id;
+
+UPDATE trout_stocking_events AS stocking
+SET rescheduled_to = duplicates.original_id
+FROM event_key_duplicates AS duplicates
+WHERE stocking.rescheduled_to = duplicates.duplicate_id;
+
+-- alert_deliveries allows one row per subscription and stocking: a duplicate's row is dropped when the
+-- surviving row, or another duplicate of it, already has one for that subscription
+DELETE FROM alert_deliveries AS delivery
+USING event_key_duplicates AS duplicates
+WHERE delivery.event_id = duplicates.duplicate_id
+  AND EXISTS (
+    SELECT 1
+    FROM alert_deliveries AS other
+    LEFT JOIN event_key_duplicates AS other_duplicates ON other_duplicates.duplicate_id = other.event_id
+    WHERE other.subscription_id = delivery.subscription_id
+      AND coalesce(other_duplicates.original_id, other.event_id) = duplicates.original_id
+      AND (other.event_id = duplicates.original_id OR other.id < delivery.id)
+  );
+
+UPDATE alert_deliveries AS delivery
+SET event_id = duplicates.original_id
+FROM event_key_duplicates AS duplicates
+WHERE delivery.event_id = duplicates.duplicate_id;
+
+DELETE FROM trout_stocking_events AS stocking
+USING event_key_duplicates AS duplicates
+WHERE stocking.id = duplicates.duplicate_id;
+
+DROP TABLE event_key_duplicates;
+
+ALTER TABLE trout_stocking_events ALTER COLUMN event_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trout_stocking_event_key ON trout_stocking_events (event_key);
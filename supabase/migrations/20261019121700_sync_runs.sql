@@ -0,0 +1,28 @@
+-- Sync run history: one row per run of the sync-stocking-data edge function
+-- Backs /api/sync-status so the app can show when data was last refreshed successfully
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  -- 'cron' for the scheduled daily sync, 'manual' for POST /api/stocking-data
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  window_start DATE NOT NULL,
+  window_end DATE NOT NULL,
+  scraped_events INTEGER NOT NULL DEFAULT 0,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  unchanged INTEGER NOT NULL DEFAULT 0,
+  cancelled INTEGER NOT NULL DEFAULT 0,
+  rescheduled INTEGER NOT NULL DEFAULT 0,
+  scrape_run_id BIGINT REFERENCES scrape_runs(id) ON DELETE SET NULL,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs (started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status_finished ON sync_runs (status, finished_at DESC);
+
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON sync_runs FOR SELECT USING (true);
@@ -0,0 +1,153 @@
+-- Canonical water and county entities (lib/canonical-entities.ts)
+-- Ids are computed from normalized names at ingest; alias rows record every spelling seen and can be
+-- edited to point a spelling at a different entity
+
+CREATE TABLE IF NOT EXISTS counties (
+  -- e.g. 'augusta', 'roanoke-city'
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS county_aliases (
+  -- Raw spelling, trimmed and lower-cased: 'augusta', 'augusta county', 'city of roanoke'
+  alias TEXT PRIMARY KEY,
+  county_id TEXT NOT NULL REFERENCES counties(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS waters (
+  -- Normalized name plus county, e.g. 'big-stony-creek--shenandoah'
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  county_id TEXT REFERENCES counties(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS water_aliases (
+  alias TEXT NOT NULL,
+  -- '' when the county is unknown
+  county_id TEXT NOT NULL DEFAULT '',
+  water_id TEXT NOT NULL REFERENCES waters(id) ON DELETE CASCADE,
+  PRIMARY KEY (alias, county_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_water_aliases_water ON water_aliases (water_id);
+
+ALTER TABLE trout_stocking_events
+  ADD COLUMN IF NOT EXISTS water_id TEXT,
+  ADD COLUMN IF NOT EXISTS county_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_water_id ON trout_stocking_events (water_id);
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_county_id_date ON trout_stocking_events (county_id, stocking_date);
+
+-- Session-local copies of the id rules, for the backfills below
+-- normalizeCountyName: 'City of Roanoke' -> 'roanoke city', 'AUGUSTA CO.' -> 'augusta'
+CREATE FUNCTION pg_temp.county_name(raw TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      btrim(regexp_replace(regexp_replace(lower(raw), '[^a-z\s]+', ' ', 'g'), '\s+', ' ', 'g')),
+      '^city of (.+)$', '\1 city'
+    ),
+    '\s+(county|co)$', ''
+  ))
+$$;
+
+-- slugify(normalizeWaterTokens()): 'Big Stony Cr.' -> 'big-stony-creek', with the abbreviations of lib/water-matching.ts
+CREATE FUNCTION pg_temp.water_slug(raw TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT string_agg(replace(coalesce(abbreviation.expansion, token.value), ' ', '-'), '-' ORDER BY token.position)
+  FROM regexp_split_to_table(
+    btrim(regexp_replace(regexp_replace(replace(lower(raw), '&', ' and '), '[''’]', '', 'g'), '[^a-z0-9]+', ' ', 'g')),
+    ' '
+  ) WITH ORDINALITY AS token (value, position)
+  LEFT JOIN (VALUES
+    ('cr', 'creek'), ('crk', 'creek'), ('ck', 'creek'), ('r', 'river'), ('riv', 'river'), ('br', 'branch'),
+    ('fk', 'fork'), ('frk', 'fork'), ('l', 'lake'), ('lk', 'lake'), ('res', 'reservoir'), ('resv', 'reservoir'),
+    ('pd', 'pond'), ('mtn', 'mountain'), ('mt', 'mount'), ('n', 'north'), ('s', 'south'), ('e', 'east'),
+    ('w', 'west'), ('nf', 'north fork'), ('sf', 'south fork'), ('st', 'saint'), ('trib', 'tributary')
+  ) AS abbreviation (token, expansion) ON abbreviation.token = token.value
+  WHERE token.value <> ''
+$$;
+
+-- normalizeWaterName: the slug without parenthetical qualifiers or a section after ' - '
+CREATE FUNCTION pg_temp.water_name_slug(raw TEXT) RETURNS TEXT LANGUAGE sql IMMUTABLE AS $$
+  SELECT pg_temp.water_slug((regexp_split_to_array(regexp_replace(raw, '\([^)]*\)', ' ', 'g'), '\s+[-–]\s+'))[1])
+$$;
+
+-- Backfill county ids and names with the same rules as countyIdFor/countyNameFor
+WITH normalized AS (
+  SELECT id, pg_temp.county_name(county) AS name
+  FROM trout_stocking_events
+  WHERE county_id IS NULL
+)
+UPDATE trout_stocking_events AS event
+SET county_id = replace(normalized.name, ' ', '-'),
+    county = CASE
+      WHEN normalized.name LIKE '% city' THEN initcap(normalized.name)
+      ELSE initcap(normalized.name) || ' County'
+    END
+FROM normalized
+WHERE event.id = normalized.id
+  AND normalized.name NOT IN ('', 'unknown');
+
+INSERT INTO counties (id, name)
+SELECT DISTINCT county_id, county FROM trout_stocking_events WHERE county_id IS NOT NULL
+ON CONFLICT (id) DO NOTHING;
+
+-- Backfill water ids with the same rules as waterIdFor, and register each water and spelling as registerEntities would
+UPDATE trout_stocking_events
+SET water_id = CASE
+  WHEN county_id IS NOT NULL THEN pg_temp.water_slug(location) || '--' || county_id
+  ELSE pg_temp.water_slug(location)
+END
+WHERE water_id IS NULL
+  AND pg_temp.water_slug(location) IS NOT NULL;
+
+INSERT INTO waters (id, name, county_id)
+SELECT DISTINCT ON (water_id) water_id, btrim(location), county_id
+FROM trout_stocking_events
+WHERE water_id IS NOT NULL
+ORDER BY water_id, stocking_date DESC
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO water_aliases (alias, county_id, water_id)
+SELECT DISTINCT ON (1, 2) lower(btrim(regexp_replace(location, '\s+', ' ', 'g'))), coalesce(county_id, ''), water_id
+FROM trout_stocking_events
+WHERE water_id IS NOT NULL
+ORDER BY 1, 2, stocking_date DESC
+ON CONFLICT (alias, county_id) DO NOTHING;
+
+-- Subscriptions filter on the same ids (subscriptionMatchesEvent) instead of names
+ALTER TABLE stocking_subscriptions
+  ADD COLUMN IF NOT EXISTS water_ids TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS county_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- A water name used to match that water in any county, so it becomes the id of every stocked water with that
+-- name; a name never stocked keeps its bare slug, which matches nothing rather than widening the filter
+UPDATE stocking_subscriptions AS subscription
+SET water_ids = ARRAY(
+  SELECT DISTINCT coalesce(event.water_id, pg_temp.water_slug(name))
+  FROM unnest(subscription.water_bodies) AS name
+  LEFT JOIN trout_stocking_events AS event
+    ON event.water_id IS NOT NULL AND pg_temp.water_name_slug(event.location) = pg_temp.water_name_slug(name)
+)
+WHERE cardinality(subscription.water_bodies) > 0;
+
+UPDATE stocking_subscriptions AS subscription
+SET county_ids = ARRAY(
+  SELECT DISTINCT replace(pg_temp.county_name(name), ' ', '-')
+  FROM unnest(subscription.counties) AS name
+  WHERE pg_temp.county_name(name) NOT IN ('', 'unknown')
+)
+WHERE cardinality(subscription.counties) > 0;
+
+ALTER TABLE stocking_subscriptions
+  DROP COLUMN IF EXISTS water_bodies,
+  DROP COLUMN IF EXISTS counties;
+
+ALTER TABLE counties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE county_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE water_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON counties FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON county_aliases FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON waters FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON water_aliases FOR SELECT USING (true);
@@ -0,0 +1,27 @@
+-- Species as an array of canonical names instead of a " + "-joined string
+-- species_label keeps the joined form for sorting and for the event key, so existing keys stay valid
+
+DROP VIEW IF EXISTS stocking_event_facets;
+
+ALTER TABLE trout_stocking_events ADD COLUMN IF NOT EXISTS species_label TEXT;
+
+UPDATE trout_stocking_events SET species_label = species WHERE species_label IS NULL;
+
+ALTER TABLE trout_stocking_events
+  ALTER COLUMN species TYPE TEXT[]
+  USING CASE WHEN species = 'Unknown' THEN '{}'::text[] ELSE string_to_array(species, ' + ') END;
+
+ALTER TABLE trout_stocking_events ALTER COLUMN species_label SET NOT NULL;
+
+-- Any-of species filters (species && '{...}')
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_species ON trout_stocking_events USING GIN (species);
+
+-- Keyset pagination when sorting by species
+DROP INDEX IF EXISTS idx_trout_stocking_species_id;
+CREATE INDEX IF NOT EXISTS idx_trout_stocking_species_label_id ON trout_stocking_events (species_label, id);
+
+-- Filter options: one row per county and individual species
+CREATE OR REPLACE VIEW stocking_event_facets AS
+  SELECT DISTINCT county, unnest(species) AS species FROM trout_stocking_events;
+
+GRANT SELECT ON stocking_event_facets TO anon, authenticated;